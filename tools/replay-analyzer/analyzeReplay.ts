@@ -5,14 +5,36 @@ import path from "node:path";
 import { performance } from "node:perf_hooks";
 import { fileURLToPath } from "node:url";
 import { parseArgs, usage } from "./args";
+import { createAttackLedger } from "./attackLedger";
+import { evaluateAssertions, hasAssertions, writeAssertionResults } from "./assertions";
+import { measureTrackerOverhead, runBenchmark } from "./benchmark";
+import { buildOrderCsv, createBuildOrderTracker } from "./buildOrderTracker";
+import { analyzeInChildProcess, buildComparison } from "./compareReplay";
 import { createConsoleCapture } from "./consoleCapture";
+import { summarizeCpuProfile } from "./cpuProfileSummary";
+import { checkDeterminism } from "./determinismCheck";
+import { createDiplomacyTracker } from "./diplomacyTracker";
+import { diagnoseDesync } from "./desyncDiagnose";
+import { summarizeGc } from "./gcTracker";
 import { createEconomyTracker } from "./economyTracker";
+import { createExecutionTimingTracker } from "./executionTimingTracker";
+import { FileSystemGameMapLoader } from "./FileSystemGameMapLoader";
+import { createInstrumentation, loadProbeConfig } from "./instrumentation";
 import { checkoutOpenFrontCommit, ensureGameDepsInstalled } from "./openfrontCheckout";
+import { createNukeTracker } from "./nukeTracker";
 import { loadOpenFrontRuntime } from "./openfrontLoader";
 import { summarizePlayers } from "./playerSummary";
-import { loadReplay } from "./replayLoader";
+import { createRailNetworkTracker } from "./railNetworkTracker";
+import { extractReplayGitCommit, loadReplay, resolveReplayInputToPath } from "./replayLoader";
 import { reportHtml } from "./reportHtml";
 import { simulateReplay } from "./simulateReplay";
+import { reconcileGoldStats, validateRecordedStats } from "./statsReconciliation";
+import { createSlowTickDetector } from "./slowTickDetector";
+import { createStandingsTracker } from "./standingsTracker";
+import { createTerritoryTracker } from "./territoryTracker";
+import { createTradeRouteTracker } from "./tradeRouteTracker";
+import { createTurnProfiler } from "./turnProfiler";
+import type { TurnProfiler } from "./turnProfiler";
 import type { ReplayPerfReport } from "./types";
 import { percentile } from "./utils";
 
@@ -21,48 +43,6 @@ if (globalThis.performance === undefined) {
   (globalThis as unknown as { performance: typeof performance }).performance = performance;
 }
 
-async function extractReplayGitCommit(absoluteReplayPath: string): Promise<string | null> {
-  const raw = await fs.readFile(absoluteReplayPath, "utf8");
-  const json = JSON.parse(raw.replace(/^\uFEFF/, ""));
-  return typeof json?.gitCommit === "string" ? json.gitCommit : null;
-}
-
-const replayIdRegex = /^[a-zA-Z0-9]{8}$/;
-async function resolveReplayInputToPath(opts: {
-  replayInput: string;
-  apiBase: string;
-  repoRoot: string;
-  log?: (msg: string) => void;
-}): Promise<string> {
-  const log = opts.log ?? (() => {});
-  const asPath = path.resolve(process.cwd(), opts.replayInput);
-  try {
-    await fs.access(asPath);
-    return asPath;
-  } catch {
-    // continue
-  }
-
-  if (!replayIdRegex.test(opts.replayInput)) {
-    throw new Error(`Replay not found on disk and not a valid gameID: ${opts.replayInput}`);
-  }
-
-  const apiBase = opts.apiBase.replace(/\/+$/, "");
-  const url = `${apiBase}/game/${opts.replayInput}`;
-  log(`fetching replay: ${url}`);
-  const res = await fetch(url, { method: "GET", headers: { "Content-Type": "application/json" } });
-  const text = await res.text();
-  if (!res.ok) {
-    throw new Error(`Failed to fetch replay ${opts.replayInput} (${res.status} ${res.statusText}): ${text}`);
-  }
-
-  const outDir = path.join(opts.repoRoot, "replays");
-  await fs.mkdir(outDir, { recursive: true });
-  const outPath = path.join(outDir, `${opts.replayInput}.json`);
-  await fs.writeFile(outPath, text, "utf8");
-  return outPath;
-}
-
 async function firstExistingPath(paths: string[]): Promise<string> {
   for (const p of paths) {
     try {
@@ -97,6 +77,7 @@ const {
   replayPath,
   outPath,
   maxTurns,
+  fromTurn,
   economySampleEvery,
   help,
   verbose,
@@ -106,6 +87,37 @@ const {
   install,
   apiBase,
   cpuProfile,
+  profileTurns,
+  heapSnapshotAt,
+  desyncDiagnose,
+  determinismCheck,
+  slowTickThreshold,
+  execTiming,
+  attackLedger: withAttackLedger,
+  tradeRoutes: withTradeRoutes,
+  railNetwork: withRailNetwork,
+  nukes: withNukes,
+  instrument,
+  instrumentConfig,
+  attribution,
+  trackerOverhead,
+  statsTolerance,
+  runs,
+  warmupRuns,
+  compareCommit,
+  compareRoot,
+  jsonOut,
+  buildOrderCsv: buildOrderCsvPath,
+  mapSnapshotEvery,
+  chartBuild,
+  assertP95Ms,
+  assertP99Ms,
+  assertMaxMs,
+  failOnDesync,
+  maxWarnings,
+  failOnStatsMismatch,
+  stopOnDesync,
+  resultsOut,
 } = parseArgs(process.argv.slice(2));
 if (help || !replayPath) {
   console.log(usage());
@@ -125,6 +137,8 @@ if (replayGitCommit !== null && !/^[0-9a-f]{40}$/i.test(replayGitCommit)) {
   throw new Error(`Invalid replay gitCommit (expected 40-hex SHA): ${replayGitCommit}`);
 }
 
+const resolvedCacheDir = cacheDir ? path.resolve(process.cwd(), cacheDir) : path.join(repoRoot, ".cache", "openfront");
+
 const gameRoot =
   openfrontRoot ??
   (replayGitCommit
@@ -132,7 +146,7 @@ const gameRoot =
         await checkoutOpenFrontCommit({
           repoUrl,
           commit: replayGitCommit,
-          cacheDir: cacheDir ? path.resolve(process.cwd(), cacheDir) : path.join(repoRoot, ".cache", "openfront"),
+          cacheDir: resolvedCacheDir,
           log: rawLog,
         })
       ).gameRoot
@@ -156,7 +170,26 @@ const d3Path = await firstExistingPath([
 const loaded = await loadReplay({ replayPath: absoluteReplayPath, maxTurns, openfront });
 
 const consoleCapture = createConsoleCapture({ verbose, topN: 15 });
-const economyTracker = createEconomyTracker({ sampleEveryTurns: economySampleEvery, topN: 12 });
+const instrumentation = createInstrumentation({ attribution });
+const economyTracker = createEconomyTracker({ sampleEveryTurns: economySampleEvery, topN: 12, instrumentation });
+const attackLedger = withAttackLedger ? createAttackLedger({ instrumentation, maxAttacks: 20000 }) : null;
+const tradeRouteTracker = withTradeRoutes ? createTradeRouteTracker({ instrumentation, maxShips: 50000 }) : null;
+const railNetworkTracker = withRailNetwork ? createRailNetworkTracker({ instrumentation, maxTrips: 50000 }) : null;
+const buildOrderTracker = createBuildOrderTracker();
+const nukeTracker = withNukes ? createNukeTracker({ instrumentation, maxNukes: 20000 }) : null;
+const standingsTracker = createStandingsTracker({ sampleEveryTurns: economySampleEvery, maxRankedPlayers: 20 });
+const territoryTracker =
+  mapSnapshotEvery > 0 ? createTerritoryTracker({ sampleEveryTurns: mapSnapshotEvery, maxCells: 250_000 }) : null;
+const diplomacyTracker = createDiplomacyTracker({
+  gameUpdateType: (openfront.GameUpdates as any).GameUpdateType,
+  maxEvents: 20000,
+});
+for (const target of instrument) instrumentation.probe(target);
+for (const probe of instrumentConfig ? await loadProbeConfig(instrumentConfig) : []) {
+  instrumentation.probe(probe.target, { attributeCaller: probe.attributeCaller });
+}
+const executionTimingTracker = execTiming ? createExecutionTimingTracker() : null;
+const slowTickDetector = createSlowTickDetector({ threshold: slowTickThreshold, rollingWindow: 200, maxTicks: 200 });
 
 const defaultOutDir = path.join(repoRoot, "replays", "out");
 await fs.mkdir(defaultOutDir, { recursive: true });
@@ -169,13 +202,27 @@ let sim!: Awaited<ReturnType<typeof simulateReplay>>;
 let elapsedMs = 0;
 let cpuProfileResult: any = null;
 let profSession: inspector.Session | null = null;
+let turnProfiler: TurnProfiler | null = null;
+const collectedProfiles: { label: string; outPath: string; profile: any }[] = [];
 try {
-  if (cpuProfile) {
+  if (cpuProfile || profileTurns.length > 0 || heapSnapshotAt.length > 0) {
     profSession = new inspector.Session();
     profSession.connect();
+  }
+  if (cpuProfile && profSession) {
     await inspectorPost(profSession, "Profiler.enable");
     await inspectorPost(profSession, "Profiler.start");
   }
+  if (profSession && (profileTurns.length > 0 || heapSnapshotAt.length > 0)) {
+    turnProfiler = createTurnProfiler({
+      session: profSession,
+      profileTurns,
+      heapSnapshotAt,
+      outDir: defaultOutDir,
+      baseName: `${replayBase}.${timestamp}`,
+      log: rawLog,
+    });
+  }
 
   sim = await simulateReplay({
     openfront,
@@ -186,23 +233,151 @@ try {
     expectedHashes: loaded.expectedHashes,
     progressEvery: 2000,
     progressLog: rawLog,
-    onGameInitialized: (game) => economyTracker.init(game),
-    onAfterTick: ({ game, turn, conquestEvents, isLast }) => {
+    fromTurn,
+    stopOnHashMismatch: stopOnDesync,
+    measureUpdateVolume: true,
+    onMeasureStart: (game) => {
+      instrumentation.attach(game);
+      economyTracker.init(game);
+      standingsTracker.init(game);
+      territoryTracker?.init(game);
+      slowTickDetector.init(game);
+      executionTimingTracker?.init(game);
+    },
+    onBeforeTick: ({ game, turn }) => {
+      attackLedger?.beforeTick(turn);
+      tradeRouteTracker?.beforeTick(turn);
+      railNetworkTracker?.beforeTick(turn);
+      buildOrderTracker.beforeTick(game, turn);
+      nukeTracker?.beforeTick(turn);
+      turnProfiler?.beforeTick(turn.turnNumber);
+    },
+    onAfterTick: ({ game, turn, conquestEvents, unitUpdates, gameUpdates, isLast }) => {
+      instrumentation.afterTick(turn.turnNumber);
       economyTracker.afterTick(game, turn.turnNumber, conquestEvents, isLast);
+      diplomacyTracker.afterTick(game, turn, gameUpdates);
+      railNetworkTracker?.afterTick(turn.turnNumber);
+      buildOrderTracker.afterTick(turn.turnNumber, unitUpdates);
+      standingsTracker.afterTick(game, turn.turnNumber, conquestEvents);
+      territoryTracker?.afterTick(game, turn.turnNumber, isLast);
+      slowTickDetector.afterTick(game, turn, conquestEvents, unitUpdates);
+      executionTimingTracker?.afterTick(turn.turnNumber);
+      turnProfiler?.afterTick(turn.turnNumber);
     },
   });
   elapsedMs = sim.elapsedMs;
+  if (sim.stoppedAtTurn !== null) {
+    rawLog(`stopped at turn ${sim.stoppedAtTurn} after the first hash mismatch (--stopOnDesync)`);
+  }
 } finally {
   if (profSession) {
     try {
-      cpuProfileResult = await inspectorPost<{ profile: any }>(profSession, "Profiler.stop");
-      await fs.writeFile(profileOutPath, JSON.stringify(cpuProfileResult.profile), "utf8");
-      rawLog(`cpu profile: ${profileOutPath}`);
+      if (cpuProfile) {
+        cpuProfileResult = await inspectorPost<{ profile: any }>(profSession, "Profiler.stop");
+        await fs.writeFile(profileOutPath, JSON.stringify(cpuProfileResult.profile), "utf8");
+        rawLog(`cpu profile: ${profileOutPath}`);
+        collectedProfiles.push({ label: "all turns", outPath: profileOutPath, profile: cpuProfileResult.profile });
+      }
+      collectedProfiles.push(...((await turnProfiler?.finish()) ?? []));
     } finally {
       profSession.disconnect();
     }
   }
   consoleCapture.restore();
+  instrumentation.detach();
+}
+for (const target of instrumentation.unresolvedTargets()) {
+  rawLog(`instrument: ${target} was not found on any game object; no calls recorded`);
+}
+
+let benchmark: ReplayPerfReport["benchmark"] = null;
+if (runs > 0) {
+  const benchmarkCapture = createConsoleCapture({ verbose, topN: 15 });
+  try {
+    benchmark = await runBenchmark({
+      turns: sim.samples.map((s) => s.turnNumber),
+      runs,
+      warmupRuns: warmupRuns ?? 1,
+      log: rawLog,
+      simulate: () =>
+        simulateReplay({
+          openfront,
+          gameStartInfo: loaded.gameStartInfo,
+          clientID: loaded.clientID,
+          mapsRoot,
+          turnsToRun: loaded.turnsToRun,
+          expectedHashes: loaded.expectedHashes,
+          progressEvery: 0,
+          fromTurn,
+        }),
+    });
+  } finally {
+    benchmarkCapture.restore();
+  }
+}
+
+let trackerOverheadReport: ReplayPerfReport["trackerOverhead"] = null;
+if (trackerOverhead) {
+  const baselineCapture = createConsoleCapture({ verbose, topN: 15 });
+  try {
+    trackerOverheadReport = await measureTrackerOverhead({
+      instrumented: sim,
+      benchmark,
+      attribution: instrumentation.attributionStats(),
+      warmupRuns: warmupRuns ?? 1,
+      log: rawLog,
+      simulate: () =>
+        simulateReplay({
+          openfront,
+          gameStartInfo: loaded.gameStartInfo,
+          clientID: loaded.clientID,
+          mapsRoot,
+          turnsToRun: loaded.turnsToRun,
+          expectedHashes: loaded.expectedHashes,
+          progressEvery: 0,
+          fromTurn,
+        }),
+    });
+  } finally {
+    baselineCapture.restore();
+  }
+}
+
+let desync: ReplayPerfReport["desync"] = null;
+if (desyncDiagnose && sim.hashMismatchSamples.length > 0) {
+  // The re-simulation has its own capture so engine noise doesn't double-count into the report.
+  const desyncCapture = createConsoleCapture({ verbose, topN: 15 });
+  try {
+    desync = await diagnoseDesync({
+      openfront,
+      gameStartInfo: loaded.gameStartInfo,
+      clientID: loaded.clientID,
+      mapsRoot,
+      turnsToRun: loaded.turnsToRun,
+      expectedHashes: loaded.expectedHashes,
+      firstMismatch: sim.hashMismatchSamples[0],
+      log: rawLog,
+    });
+  } finally {
+    desyncCapture.restore();
+  }
+}
+
+let determinism: ReplayPerfReport["determinism"] = null;
+if (determinismCheck) {
+  const determinismCapture = createConsoleCapture({ verbose, topN: 15 });
+  try {
+    determinism = await checkDeterminism({
+      openfront,
+      gameStartInfo: loaded.gameStartInfo,
+      clientID: loaded.clientID,
+      mapsRoot,
+      turnsToRun: loaded.turnsToRun,
+      log: rawLog,
+    });
+  } finally {
+    determinismCapture.restore();
+  }
 }
 
 const tickMs = {
@@ -221,6 +396,32 @@ const players = summarizePlayers(
   loaded.goldEarnedReplayByClientId,
 );
 
+const reachedEnd = loaded.turnsToRun.length === loaded.expandedTurns.length && sim.stoppedAtTurn === null;
+const statsReconciliation = reconcileGoldStats({
+  game: sim.runner.game,
+  record: loaded.record,
+  economyTotalsByClientId: economyTracker.totalsByClientId,
+  tolerancePct: statsTolerance,
+  complete: reachedEnd,
+  compareAnalyzer: fromTurn === null,
+});
+rawLog(
+  `stats reconciliation: ${statsReconciliation.engineDrift} categories drifted from the recorded stats, ` +
+    `${statsReconciliation.accountingMismatches} analyzer mismatches (tolerance ${statsTolerance}%)` +
+    (statsReconciliation.complete ? "" : "; run was cut short, recorded stats are end-of-game"),
+);
+
+const statsValidation = validateRecordedStats({
+  game: sim.runner.game,
+  record: loaded.record,
+  statsSchema: openfront.StatsSchemas?.PlayerStatsSchema,
+  complete: reachedEnd,
+});
+rawLog(
+  `stats validation: ${statsValidation.mismatches} of ${statsValidation.fieldsCompared} recorded stat fields differ ` +
+    `across ${statsValidation.players.length} players`,
+);
+
 const PlayerType = openfront.Game.PlayerType as any;
 const playersMeta = {
   total: players.length,
@@ -241,7 +442,9 @@ const report: ReplayPerfReport = {
     map: String(loaded.gameStartInfo.config.gameMap),
     mapSize: String(loaded.gameStartInfo.config.gameMapSize),
     numTurns: loaded.expandedTurns.length,
-    numTicksSimulated: loaded.turnsToRun.length,
+    numTicksSimulated: sim.ticksRun,
+    stoppedAtTurn: sim.stoppedAtTurn,
+    fromTurn,
     players: playersMeta,
     unknownClientIds: {
       total: loaded.unknownClientIds.length,
@@ -254,7 +457,7 @@ const report: ReplayPerfReport = {
     tickExecutionMs: tickMs,
     intents: {
       total: sim.totalIntents,
-      avgPerTurn: sim.totalIntents / Math.max(1, loaded.turnsToRun.length),
+      avgPerTurn: sim.totalIntents / Math.max(1, sim.samples.length),
       byType: sim.intentsByType,
     },
     hashChecks: {
@@ -262,24 +465,137 @@ const report: ReplayPerfReport = {
       compared: sim.hashesCompared,
       mismatches: sim.hashMismatches,
       mismatchSamples: sim.hashMismatchSamples,
+      actual: [...sim.hashesByTick.entries()],
     },
+    gc: summarizeGc(sim.gcEvents, sim.samples),
+    slowTicks: slowTickDetector.buildReport(sim.samples),
     warnings,
     logs,
   },
   samples: sim.samples,
   players,
   economy: economyTracker.buildReport(),
+  statsReconciliation,
+  statsValidation,
+  attackLedger: attackLedger?.buildReport() ?? null,
+  tradeRoutes: tradeRouteTracker?.buildReport() ?? null,
+  railNetwork: railNetworkTracker?.buildReport() ?? null,
+  buildOrder: buildOrderTracker.buildReport(),
+  nukes: nukeTracker?.buildReport() ?? null,
+  standings: standingsTracker.buildReport({
+    maxTilesBySmallID: sim.maxTilesBySmallID,
+    record: loaded.record,
+    complete: reachedEnd,
+  }),
+  territory:
+    (await territoryTracker?.buildReport({
+      mapData: new FileSystemGameMapLoader(mapsRoot, openfront.Game.GameMapType).getMapData(loaded.gameStartInfo.config.gameMap),
+    })) ?? null,
+  diplomacy: diplomacyTracker.buildReport(),
+  desync,
+  determinism,
+  executionTiming: executionTimingTracker?.buildReport() ?? null,
+  instrumentation: instrumentation.buildReport(),
+  benchmark,
+  trackerOverhead: trackerOverheadReport,
+  compare: null,
+  cpuProfiles: collectedProfiles.map(({ label, outPath, profile }) =>
+    summarizeCpuProfile(profile, {
+      label,
+      outPath,
+      roots: [
+        { dir: gameRoot, label: "" },
+        { dir: repoRoot, label: "analyzer:" },
+      ],
+      topN: 100,
+    }),
+  ),
+  assertions: [],
 };
 
-const d3Source = await fs.readFile(d3Path, "utf8");
 const defaultOutPath = path.join(
   defaultOutDir,
   `${replayBase}.${timestamp}.report.html`,
 );
 const finalOutPath = outPath ? path.resolve(process.cwd(), outPath) : defaultOutPath;
 
+if (compareCommit || compareRoot) {
+  const compareGameRoot = compareRoot
+    ? path.resolve(process.cwd(), compareRoot)
+    : (await checkoutOpenFrontCommit({ repoUrl, commit: compareCommit!, cacheDir: resolvedCacheDir, log: rawLog }))
+        .gameRoot;
+  if (install) {
+    await ensureGameDepsInstalled({ gameRoot: compareGameRoot, log: rawLog });
+  }
+  const otherLabel = compareCommit ?? compareGameRoot;
+  const otherReportPath =
+    finalOutPath.replace(/(\.report)?\.html$/, "") + `.compare-${path.basename(otherLabel).slice(0, 12)}.report.html`;
+  rawLog(`comparing against ${otherLabel}`);
+  const other = await analyzeInChildProcess({
+    analyzerScript: __filename,
+    repoRoot,
+    replayPath: loaded.absoluteReplayPath,
+    openfrontRoot: compareGameRoot,
+    outPath: otherReportPath,
+    extraArgs: [
+      "--apiBase",
+      apiBase,
+      "--economySampleEvery",
+      String(economySampleEvery),
+      ...(maxTurns !== null ? ["--maxTurns", String(maxTurns)] : []),
+      ...(fromTurn !== null ? ["--fromTurn", String(fromTurn)] : []),
+      "--attribution",
+      attribution,
+      ...(chartBuild ? [] : ["--noChartBuild"]),
+      ...(stopOnDesync ? ["--stopOnDesync"] : []),
+      // Everything that adds overhead to ticks runs on both sides, so the tick-time deltas stay comparable.
+      ...(execTiming ? ["--execTiming"] : []),
+      ...(withAttackLedger ? ["--attackLedger"] : []),
+      ...(withTradeRoutes ? ["--tradeRoutes"] : []),
+      ...(withRailNetwork ? ["--railNetwork"] : []),
+      ...(withNukes ? ["--nukes"] : []),
+      "--mapSnapshotEvery",
+      String(mapSnapshotEvery),
+      ...instrument.flatMap((target) => ["--instrument", target]),
+      ...(instrumentConfig ? ["--instrumentConfig", path.resolve(process.cwd(), instrumentConfig)] : []),
+      ...(cpuProfile ? ["--cpuProfile"] : []),
+      ...profileTurns.flatMap((r) => ["--profileTurns", `${r.start}:${r.end}`]),
+      ...heapSnapshotAt.flatMap((turn) => ["--heapSnapshotAt", String(turn)]),
+    ],
+  });
+  report.compare = buildComparison(report, other, {
+    base: openfrontRoot ?? loaded.replayGitCommit ?? gameRoot,
+    other: otherLabel,
+    otherReportPath,
+  });
+}
+
+const budgets = {
+  p95Ms: assertP95Ms,
+  p99Ms: assertP99Ms,
+  maxMs: assertMaxMs,
+  failOnDesync,
+  maxWarnings,
+  failOnStatsMismatch,
+};
+if (hasAssertions(budgets)) {
+  report.assertions = evaluateAssertions(report, budgets);
+}
+
+if (jsonOut) {
+  await fs.writeFile(path.resolve(process.cwd(), jsonOut), JSON.stringify(report), "utf8");
+}
+if (buildOrderCsvPath) {
+  await fs.writeFile(path.resolve(process.cwd(), buildOrderCsvPath), buildOrderCsv(report.buildOrder), "utf8");
+  rawLog(`build order csv: ${buildOrderCsvPath}`);
+}
+
+const d3Source = await fs.readFile(d3Path, "utf8");
+
 // Build chartRenderer.js
-execSync("npm run build:charts", { stdio: "inherit", cwd: repoRoot });
+if (chartBuild) {
+  execSync("npm run build:charts", { stdio: "inherit", cwd: repoRoot });
+}
 
 // Read the compiled chartRenderer.js
 const chartRendererSrc = path.join(repoRoot, "tools", "dist", "replay-analyzer", "chartRenderer.js");
@@ -288,5 +604,23 @@ const chartJsSource = await fs.readFile(chartRendererSrc, "utf8");
 await fs.writeFile(finalOutPath, reportHtml(d3Source, chartJsSource, report), "utf8");
 
 console.log("");
-console.log(`done: simulated ${loaded.turnsToRun.length} turns in ${Math.round(elapsedMs)}ms`);
+console.log(`done: simulated ${sim.ticksRun} turns in ${Math.round(elapsedMs)}ms`);
 console.log(`report: ${finalOutPath}`);
+
+if (report.assertions.length > 0) {
+  if (resultsOut) {
+    const resultsPath = path.resolve(process.cwd(), resultsOut);
+    await writeAssertionResults(resultsPath, report.assertions, {
+      gameID: report.meta.gameID,
+      replayPath: report.meta.replayPath,
+      elapsedMs,
+    });
+    console.log(`results: ${resultsPath}`);
+  }
+  for (const r of report.assertions) {
+    console.log(`${r.passed ? "PASS" : "FAIL"} ${r.message}`);
+  }
+  if (report.assertions.some((r) => !r.passed)) {
+    process.exitCode = 1;
+  }
+}
@@ -1,3 +1,6 @@
+import os from "node:os";
+import type { AttributionMode } from "./instrumentation";
+
 export function usage(): string {
   return [
     "Replay performance analyzer",
@@ -11,11 +14,61 @@ export function usage(): string {
     "  --cacheDir <path>          Where to cache fetched commits (default: .cache/openfront).",
     "  --noInstall                Skip `npm ci` in the fetched checkout (will likely fail if deps are missing).",
     "",
+    "A/B comparison:",
+    "  --compareCommit <sha>      Also analyze the replay against this OpenFront commit and embed a diff in the report.",
+    "  --compareRoot <path>       Same, using an existing OpenFront checkout.",
+    "",
     "Replay fetching:",
     "  --apiBase <url>            Fetch replay by id from this API (default: https://api.openfront.io).",
     "",
+    "Range:",
+    "  --fromTurn <n>             Fast-forward to turn n without instrumentation; samples, trackers and the report start there.",
+    "",
     "Profiling:",
     "  --cpuProfile               Write a V8 CPU profile (.cpuprofile) for the replay run.",
+    "  --profileTurns <a:b>       Write a CPU profile covering only turns a..b (repeatable, ranges must not overlap).",
+    "  --heapSnapshotAt <turn>    Write a .heapsnapshot after this turn (repeatable).",
+    "  --execTiming               Time each execution's tick() per class (adds a small per-call overhead to tick times).",
+    "  --instrument <Class.method> Count, time and attribute callers of a method per tick (repeatable, e.g. PlayerImpl.addGold).",
+    "  --instrumentConfig <path>  Load more probes from a JSON or TS module: an array of Class.method strings or { probes: [...] }.",
+    "  --attribution <mode>       Caller attribution for gold/troop sources and probes: fast (default, cached call sites) or precise (full stack per call).",
+    "  --trackerOverhead          Run a tracker-free baseline (or reuse --runs) and report how much the trackers slowed ticks down.",
+    "",
+    "Opt-in trackers (each wraps engine methods and adds to tick times):",
+    "  --attackLedger             Follow every AttackExecution: troops sent and lost, tiles captured.",
+    "  --tradeRoutes              Follow every trade ship: ports, owners, payouts, captures.",
+    "  --railNetwork              Record stations, railroads and train trips, and time TrainExecution.tick.",
+    "  --nukes                    Follow every nuke from launch to detonation or interception, with its victims.",
+    "",
+    "Benchmarking:",
+    "  --runs <n>                 Re-run the replay n extra times without trackers and report per-tick median/min and confidence intervals.",
+    "  --warmupRuns <n>           Discarded runs before the measured ones (default: 1; also used by the --trackerOverhead baseline).",
+    "",
+    "Slow ticks:",
+    "  --slowTickThreshold <t>    Flag ticks above a percentile (e.g. p99, the default) or N times the rolling median (e.g. 3x).",
+    "",
+    "Stats reconciliation:",
+    "  --statsTolerance <pct>     Flag gold stat categories whose simulated value differs from the recorded one by more than this (default: 1).",
+    "",
+    "Desync diagnosis:",
+    "  --desyncDiagnose           On a hash mismatch, re-simulate to the first failing tick and dump per-player state.",
+    "  --determinismCheck         Run two engines in lockstep and report the first tick where hashes or player state differ.",
+    "",
+    "CI assertions (exit code 1 when a budget is broken):",
+    "  --assertP95Ms <ms>         Fail when the p95 tick execution time exceeds this.",
+    "  --assertP99Ms <ms>         Fail when the p99 tick execution time exceeds this.",
+    "  --assertMaxMs <ms>         Fail when the slowest tick exceeds this.",
+    "  --failOnDesync             Fail on any replay hash mismatch (or --determinismCheck divergence), or when no replay hash was compared.",
+    "  --maxWarnings <n>          Fail when more than n engine warnings were logged.",
+    "  --failOnStatsMismatch      Fail when any end-of-game player stat differs from the one recorded in the replay.",
+    "  --stopOnDesync             Stop simulating after the first hash mismatch.",
+    "  --resultsOut <path>        Write one result per assertion as JUnit XML (*.xml) or JSON.",
+    "",
+    "Output:",
+    "  --jsonOut <path>           Also write the raw report data as JSON.",
+    "  --buildOrderCsv <path>     Also write every player's build order as CSV.",
+    "  --mapSnapshotEvery <n>     Snapshot territory ownership for the report's map every N turns (default: 500, 0 disables).",
+    "  --noChartBuild             Reuse the compiled chart renderer instead of running `npm run build:charts`.",
     "",
     "Notes:",
     "  - Accepts OpenFront GameRecord / PartialGameRecord JSON.",
@@ -24,10 +77,41 @@ export function usage(): string {
   ].join("\n");
 }
 
+export type TurnRange = { start: number; end: number };
+
+function parseBudgetMs(flag: string, value: string | undefined): number {
+  const ms = value ? Number.parseFloat(value) : NaN;
+  if (!Number.isFinite(ms) || ms <= 0) {
+    throw new Error(`Invalid ${flag}: ${value ?? ""}`);
+  }
+  return ms;
+}
+
+function parseTurnRange(value: string | undefined): TurnRange {
+  const m = /^(\d+):(\d+)$/.exec(value ?? "");
+  const start = m ? Number.parseInt(m[1], 10) : NaN;
+  const end = m ? Number.parseInt(m[2], 10) : NaN;
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end < start) {
+    throw new Error(`Invalid --profileTurns (expected <start>:<end>): ${value ?? ""}`);
+  }
+  return { start, end };
+}
+
+export type SlowTickThreshold = { kind: "percentile"; p: number } | { kind: "rollingMedian"; factor: number };
+
+function parseSlowTickThreshold(value: string | undefined): SlowTickThreshold {
+  const pm = /^p(\d+(?:\.\d+)?)$/i.exec(value ?? "");
+  if (pm && Number(pm[1]) > 0 && Number(pm[1]) < 100) return { kind: "percentile", p: Number(pm[1]) };
+  const xm = /^(\d+(?:\.\d+)?)x$/i.exec(value ?? "");
+  if (xm && Number(xm[1]) > 0) return { kind: "rollingMedian", factor: Number(xm[1]) };
+  throw new Error(`Invalid --slowTickThreshold (expected e.g. p99 or 3x): ${value ?? ""}`);
+}
+
 export function parseArgs(argv: string[]): {
   replayPath: string | null;
   outPath: string | null;
   maxTurns: number | null;
+  fromTurn: number | null;
   economySampleEvery: number;
   help: boolean;
   verbose: boolean;
@@ -37,10 +121,42 @@ export function parseArgs(argv: string[]): {
   install: boolean;
   apiBase: string;
   cpuProfile: boolean;
+  profileTurns: TurnRange[];
+  heapSnapshotAt: number[];
+  desyncDiagnose: boolean;
+  determinismCheck: boolean;
+  slowTickThreshold: SlowTickThreshold;
+  execTiming: boolean;
+  attackLedger: boolean;
+  tradeRoutes: boolean;
+  railNetwork: boolean;
+  nukes: boolean;
+  instrument: string[];
+  instrumentConfig: string | null;
+  attribution: AttributionMode;
+  trackerOverhead: boolean;
+  statsTolerance: number;
+  runs: number;
+  warmupRuns: number | null;
+  compareCommit: string | null;
+  compareRoot: string | null;
+  jsonOut: string | null;
+  buildOrderCsv: string | null;
+  mapSnapshotEvery: number;
+  chartBuild: boolean;
+  assertP95Ms: number | null;
+  assertP99Ms: number | null;
+  assertMaxMs: number | null;
+  failOnDesync: boolean;
+  maxWarnings: number | null;
+  failOnStatsMismatch: boolean;
+  stopOnDesync: boolean;
+  resultsOut: string | null;
 } {
   let replayPath: string | null = null;
   let outPath: string | null = null;
   let maxTurns: number | null = null;
+  let fromTurn: number | null = null;
   let economySampleEvery = 10;
   let help = false;
   let verbose = false;
@@ -50,6 +166,37 @@ export function parseArgs(argv: string[]): {
   let install = true;
   let apiBase = "https://api.openfront.io";
   let cpuProfile = false;
+  const profileTurns: TurnRange[] = [];
+  const heapSnapshotAt: number[] = [];
+  let desyncDiagnose = false;
+  let determinismCheck = false;
+  let slowTickThreshold: SlowTickThreshold = { kind: "percentile", p: 99 };
+  let execTiming = false;
+  let attackLedger = false;
+  let tradeRoutes = false;
+  let railNetwork = false;
+  let nukes = false;
+  const instrument: string[] = [];
+  let instrumentConfig: string | null = null;
+  let attribution: AttributionMode = "fast";
+  let trackerOverhead = false;
+  let statsTolerance = 1;
+  let runs = 0;
+  let warmupRuns: number | null = null;
+  let compareCommit: string | null = null;
+  let compareRoot: string | null = null;
+  let jsonOut: string | null = null;
+  let buildOrderCsv: string | null = null;
+  let mapSnapshotEvery = 500;
+  let chartBuild = true;
+  let assertP95Ms: number | null = null;
+  let assertP99Ms: number | null = null;
+  let assertMaxMs: number | null = null;
+  let failOnDesync = false;
+  let maxWarnings: number | null = null;
+  let failOnStatsMismatch = false;
+  let stopOnDesync = false;
+  let resultsOut: string | null = null;
 
   const args = [...argv];
   while (args.length > 0) {
@@ -66,6 +213,72 @@ export function parseArgs(argv: string[]): {
       outPath = args.shift() ?? null;
       continue;
     }
+    if (arg === "--jsonOut") {
+      jsonOut = args.shift() ?? null;
+      continue;
+    }
+    if (arg === "--buildOrderCsv") {
+      buildOrderCsv = args.shift() ?? null;
+      continue;
+    }
+    if (arg === "--mapSnapshotEvery") {
+      const value = args.shift();
+      mapSnapshotEvery = value ? Number.parseInt(value, 10) : NaN;
+      if (!Number.isFinite(mapSnapshotEvery) || mapSnapshotEvery < 0) {
+        throw new Error(`Invalid --mapSnapshotEvery: ${value ?? ""}`);
+      }
+      continue;
+    }
+    if (arg === "--assertP95Ms") {
+      assertP95Ms = parseBudgetMs(arg, args.shift());
+      continue;
+    }
+    if (arg === "--assertP99Ms") {
+      assertP99Ms = parseBudgetMs(arg, args.shift());
+      continue;
+    }
+    if (arg === "--assertMaxMs") {
+      assertMaxMs = parseBudgetMs(arg, args.shift());
+      continue;
+    }
+    if (arg === "--failOnDesync") {
+      failOnDesync = true;
+      continue;
+    }
+    if (arg === "--failOnStatsMismatch") {
+      failOnStatsMismatch = true;
+      continue;
+    }
+    if (arg === "--maxWarnings") {
+      const value = args.shift();
+      maxWarnings = value ? Number.parseInt(value, 10) : NaN;
+      if (!Number.isFinite(maxWarnings) || maxWarnings < 0) {
+        throw new Error(`Invalid --maxWarnings: ${value ?? ""}`);
+      }
+      continue;
+    }
+    if (arg === "--stopOnDesync") {
+      stopOnDesync = true;
+      continue;
+    }
+    if (arg === "--resultsOut") {
+      resultsOut = args.shift() ?? null;
+      continue;
+    }
+    if (arg === "--noChartBuild") {
+      chartBuild = false;
+      continue;
+    }
+    if (arg === "--compareCommit") {
+      const v = args.shift();
+      if (!v || !/^[0-9a-f]{40}$/i.test(v)) throw new Error(`Invalid --compareCommit (expected 40-hex SHA): ${v ?? ""}`);
+      compareCommit = v;
+      continue;
+    }
+    if (arg === "--compareRoot") {
+      compareRoot = args.shift() ?? null;
+      continue;
+    }
     if (arg === "--openfrontRoot") {
       openfrontRoot = args.shift() ?? null;
       continue;
@@ -93,6 +306,86 @@ export function parseArgs(argv: string[]): {
       cpuProfile = true;
       continue;
     }
+    if (arg === "--profileTurns") {
+      profileTurns.push(parseTurnRange(args.shift()));
+      continue;
+    }
+    if (arg === "--heapSnapshotAt") {
+      const value = args.shift();
+      const turn = value ? Number.parseInt(value, 10) : NaN;
+      if (!Number.isFinite(turn) || turn < 0) {
+        throw new Error(`Invalid --heapSnapshotAt: ${value ?? ""}`);
+      }
+      heapSnapshotAt.push(turn);
+      continue;
+    }
+    if (arg === "--attackLedger") {
+      attackLedger = true;
+      continue;
+    }
+    if (arg === "--tradeRoutes") {
+      tradeRoutes = true;
+      continue;
+    }
+    if (arg === "--railNetwork") {
+      railNetwork = true;
+      continue;
+    }
+    if (arg === "--nukes") {
+      nukes = true;
+      continue;
+    }
+    if (arg === "--execTiming") {
+      execTiming = true;
+      continue;
+    }
+    if (arg === "--instrument") {
+      const value = args.shift();
+      if (!value || !/^[A-Za-z_$][\w$]*\.[A-Za-z_$][\w$]*$/.test(value)) {
+        throw new Error(`Invalid --instrument (expected Class.method): ${value ?? ""}`);
+      }
+      instrument.push(value);
+      continue;
+    }
+    if (arg === "--instrumentConfig") {
+      instrumentConfig = args.shift() ?? null;
+      if (!instrumentConfig) {
+        throw new Error("Missing value for --instrumentConfig");
+      }
+      continue;
+    }
+    if (arg === "--attribution") {
+      const value = args.shift();
+      if (value !== "fast" && value !== "precise") {
+        throw new Error(`Invalid --attribution (expected fast or precise): ${value ?? ""}`);
+      }
+      attribution = value;
+      continue;
+    }
+    if (arg === "--trackerOverhead") {
+      trackerOverhead = true;
+      continue;
+    }
+    if (arg === "--statsTolerance") {
+      const value = args.shift();
+      statsTolerance = value ? Number(value) : NaN;
+      if (!Number.isFinite(statsTolerance) || statsTolerance < 0) {
+        throw new Error(`Invalid --statsTolerance: ${value ?? ""}`);
+      }
+      continue;
+    }
+    if (arg === "--desyncDiagnose") {
+      desyncDiagnose = true;
+      continue;
+    }
+    if (arg === "--determinismCheck") {
+      determinismCheck = true;
+      continue;
+    }
+    if (arg === "--slowTickThreshold") {
+      slowTickThreshold = parseSlowTickThreshold(args.shift());
+      continue;
+    }
     if (arg === "--maxTurns") {
       const value = args.shift();
       maxTurns = value ? Number.parseInt(value, 10) : NaN;
@@ -101,6 +394,14 @@ export function parseArgs(argv: string[]): {
       }
       continue;
     }
+    if (arg === "--fromTurn") {
+      const value = args.shift();
+      fromTurn = value ? Number.parseInt(value, 10) : NaN;
+      if (!Number.isFinite(fromTurn) || fromTurn < 0) {
+        throw new Error(`Invalid --fromTurn: ${value ?? ""}`);
+      }
+      continue;
+    }
     if (arg === "--economySampleEvery") {
       const value = args.shift();
       economySampleEvery = value ? Number.parseInt(value, 10) : NaN;
@@ -109,6 +410,22 @@ export function parseArgs(argv: string[]): {
       }
       continue;
     }
+    if (arg === "--runs") {
+      const value = args.shift();
+      runs = value ? Number.parseInt(value, 10) : NaN;
+      if (!Number.isFinite(runs) || runs <= 0) {
+        throw new Error(`Invalid --runs: ${value ?? ""}`);
+      }
+      continue;
+    }
+    if (arg === "--warmupRuns") {
+      const value = args.shift();
+      warmupRuns = value ? Number.parseInt(value, 10) : NaN;
+      if (!Number.isFinite(warmupRuns) || warmupRuns < 0) {
+        throw new Error(`Invalid --warmupRuns: ${value ?? ""}`);
+      }
+      continue;
+    }
     if (arg.startsWith("--")) {
       throw new Error(`Unknown flag: ${arg}`);
     }
@@ -119,10 +436,43 @@ export function parseArgs(argv: string[]): {
     throw new Error(`Unexpected argument: ${arg}`);
   }
 
+  profileTurns.sort((a, b) => a.start - b.start);
+  for (let i = 1; i < profileTurns.length; i++) {
+    if (profileTurns[i].start <= profileTurns[i - 1].end) {
+      throw new Error("--profileTurns ranges must not overlap");
+    }
+  }
+  for (const r of profileTurns) {
+    if (fromTurn !== null && r.end < fromTurn) {
+      throw new Error(`--profileTurns ${r.start}:${r.end} ends before --fromTurn ${fromTurn}`);
+    }
+    if (maxTurns !== null && r.start >= maxTurns) {
+      throw new Error(`--profileTurns ${r.start}:${r.end} starts after --maxTurns ${maxTurns}`);
+    }
+  }
+  for (const turn of heapSnapshotAt) {
+    if (fromTurn !== null && turn < fromTurn) {
+      throw new Error(`--heapSnapshotAt ${turn} is before --fromTurn ${fromTurn}`);
+    }
+    if (maxTurns !== null && turn >= maxTurns) {
+      throw new Error(`--heapSnapshotAt ${turn} is not below --maxTurns ${maxTurns}`);
+    }
+  }
+  if (cpuProfile && profileTurns.length > 0) {
+    throw new Error("Pass either --cpuProfile or --profileTurns, not both");
+  }
+  if (fromTurn !== null && maxTurns !== null && fromTurn >= maxTurns) {
+    throw new Error("--fromTurn must be below --maxTurns");
+  }
+  if (compareCommit && compareRoot) {
+    throw new Error("Pass only one of --compareCommit and --compareRoot");
+  }
+
   return {
     replayPath,
     outPath,
     maxTurns,
+    fromTurn,
     economySampleEvery,
     help,
     verbose,
@@ -132,5 +482,173 @@ export function parseArgs(argv: string[]): {
     install,
     apiBase,
     cpuProfile,
+    profileTurns,
+    heapSnapshotAt,
+    desyncDiagnose,
+    determinismCheck,
+    slowTickThreshold,
+    execTiming,
+    attackLedger,
+    tradeRoutes,
+    railNetwork,
+    nukes,
+    instrument,
+    instrumentConfig,
+    attribution,
+    trackerOverhead,
+    statsTolerance,
+    runs,
+    warmupRuns,
+    compareCommit,
+    compareRoot,
+    jsonOut,
+    buildOrderCsv,
+    mapSnapshotEvery,
+    chartBuild,
+    assertP95Ms,
+    assertP99Ms,
+    assertMaxMs,
+    failOnDesync,
+    maxWarnings,
+    failOnStatsMismatch,
+    stopOnDesync,
+    resultsOut,
+  };
+}
+
+export function batchUsage(): string {
+  return [
+    "Replay batch analyzer",
+    "",
+    "Usage:",
+    "  npx tsx tools/replay-analyzer/batchAnalyze.ts <dir|glob|ids.txt> [--jobs <n>] [--outDir <dir>] [--maxTurns <n>]",
+    "",
+    "Inputs:",
+    "  <dir>                      Every *.json replay in the directory.",
+    "  <glob>                     Replays matching a file-name pattern, e.g. replays/2024-*.json (* and ? in the last segment).",
+    "  <ids.txt>                  One gameID or replay path per line (# starts a comment).",
+    "",
+    "Options:",
+    "  --jobs <n>                 Replays analyzed in parallel, each in its own process (default: CPU count - 1).",
+    "  --outDir <dir>             Where reports and the index page go (default: replays/out/batch-<timestamp>).",
+    "  --openfrontRoot <path>     Use this checkout for every replay instead of fetching each gitCommit.",
+    "  --repo <git-url>           Git remote to fetch from (default: https://github.com/OpenFrontIO/OpenFrontIO.git).",
+    "  --cacheDir <path>          Where to cache fetched commits (default: .cache/openfront).",
+    "  --noInstall                Skip `npm ci` in fetched checkouts.",
+    "  --apiBase <url>            Fetch gameIDs from this API (default: https://api.openfront.io).",
+    "  --maxTurns <n>             Passed to every analysis.",
+    "  --economySampleEvery <n>   Passed to every analysis.",
+    "",
+    "Notes:",
+    "  - Replays are grouped by gitCommit; each commit is checked out and installed once.",
+    "  - Each replay gets its own report and log; index.html ranks them by tick time, hash mismatches and warnings.",
+  ].join("\n");
+}
+
+export function parseBatchArgs(argv: string[]): {
+  input: string | null;
+  jobs: number;
+  outDir: string | null;
+  help: boolean;
+  openfrontRoot: string | null;
+  repoUrl: string;
+  cacheDir: string | null;
+  install: boolean;
+  apiBase: string;
+  maxTurns: number | null;
+  economySampleEvery: number | null;
+} {
+  let input: string | null = null;
+  let jobs = Math.max(1, os.availableParallelism() - 1);
+  let outDir: string | null = null;
+  let help = false;
+  let openfrontRoot: string | null = null;
+  let repoUrl = "https://github.com/OpenFrontIO/OpenFrontIO.git";
+  let cacheDir: string | null = null;
+  let install = true;
+  let apiBase = "https://api.openfront.io";
+  let maxTurns: number | null = null;
+  let economySampleEvery: number | null = null;
+
+  const args = [...argv];
+  while (args.length > 0) {
+    const arg = args.shift()!;
+    if (arg === "--help" || arg === "-h") {
+      help = true;
+      continue;
+    }
+    if (arg === "--jobs") {
+      const value = args.shift();
+      jobs = value ? Number.parseInt(value, 10) : NaN;
+      if (!Number.isFinite(jobs) || jobs <= 0) {
+        throw new Error(`Invalid --jobs: ${value ?? ""}`);
+      }
+      continue;
+    }
+    if (arg === "--outDir") {
+      outDir = args.shift() ?? null;
+      continue;
+    }
+    if (arg === "--openfrontRoot") {
+      openfrontRoot = args.shift() ?? null;
+      continue;
+    }
+    if (arg === "--repo") {
+      const v = args.shift();
+      if (!v) throw new Error("Missing value for --repo");
+      repoUrl = v;
+      continue;
+    }
+    if (arg === "--cacheDir") {
+      cacheDir = args.shift() ?? null;
+      continue;
+    }
+    if (arg === "--noInstall") {
+      install = false;
+      continue;
+    }
+    if (arg === "--apiBase") {
+      apiBase = args.shift() ?? "";
+      if (!apiBase) throw new Error("Missing value for --apiBase");
+      continue;
+    }
+    if (arg === "--maxTurns") {
+      const value = args.shift();
+      maxTurns = value ? Number.parseInt(value, 10) : NaN;
+      if (!Number.isFinite(maxTurns)) {
+        throw new Error(`Invalid --maxTurns: ${value ?? ""}`);
+      }
+      continue;
+    }
+    if (arg === "--economySampleEvery") {
+      const value = args.shift();
+      economySampleEvery = value ? Number.parseInt(value, 10) : NaN;
+      if (!Number.isFinite(economySampleEvery) || economySampleEvery <= 0) {
+        throw new Error(`Invalid --economySampleEvery: ${value ?? ""}`);
+      }
+      continue;
+    }
+    if (arg.startsWith("--")) {
+      throw new Error(`Unknown flag: ${arg}`);
+    }
+    if (input === null) {
+      input = arg;
+      continue;
+    }
+    throw new Error(`Unexpected argument: ${arg}`);
+  }
+
+  return {
+    input,
+    jobs,
+    outDir,
+    help,
+    openfrontRoot,
+    repoUrl,
+    cacheDir,
+    install,
+    apiBase,
+    maxTurns,
+    economySampleEvery,
   };
 }
@@ -0,0 +1,142 @@
+import fs from "node:fs/promises";
+import type { AssertionResult, ReplayPerfReport } from "./types";
+
+export type AssertionBudgets = {
+  p95Ms: number | null;
+  p99Ms: number | null;
+  maxMs: number | null;
+  failOnDesync: boolean;
+  maxWarnings: number | null;
+  failOnStatsMismatch: boolean;
+};
+
+export function hasAssertions(budgets: AssertionBudgets): boolean {
+  return (
+    budgets.p95Ms !== null ||
+    budgets.p99Ms !== null ||
+    budgets.maxMs !== null ||
+    budgets.failOnDesync ||
+    budgets.maxWarnings !== null ||
+    budgets.failOnStatsMismatch
+  );
+}
+
+function atMost(name: string, actual: number, limit: number, unit: string): AssertionResult {
+  const passed = actual <= limit;
+  return {
+    name,
+    passed,
+    actual,
+    limit,
+    message: `${name}: ${actual.toFixed(3)}${unit} ${passed ? "<=" : ">"} ${limit}${unit}`,
+  };
+}
+
+export function evaluateAssertions(report: ReplayPerfReport, budgets: AssertionBudgets): AssertionResult[] {
+  const tick = report.summary.tickExecutionMs;
+  const results: AssertionResult[] = [];
+  if (budgets.p95Ms !== null) results.push(atMost("tick p95", tick.p95, budgets.p95Ms, "ms"));
+  if (budgets.p99Ms !== null) results.push(atMost("tick p99", tick.p99, budgets.p99Ms, "ms"));
+  if (budgets.maxMs !== null) results.push(atMost("tick max", tick.max, budgets.maxMs, "ms"));
+  if (budgets.failOnDesync) {
+    const { compared, mismatches } = report.summary.hashChecks;
+    const first = report.summary.hashChecks.mismatchSamples[0];
+    // A replay without hashes on the measured turns checks nothing, so it can't pass the gate.
+    results.push({
+      name: "replay hashes",
+      passed: compared > 0 && mismatches === 0,
+      actual: mismatches,
+      limit: 0,
+      message:
+        compared === 0
+          ? "replay hashes: none compared (the replay has no hashes on the measured turns)"
+          : mismatches === 0
+            ? `replay hashes: ${compared} compared, none mismatched`
+            : `replay hashes: ${mismatches} mismatched, first at tick ${first?.tick} (expected ${first?.expected}, got ${first?.actual})`,
+    });
+    const divergentTurn = report.determinism?.firstDivergentTurn ?? null;
+    if (report.determinism) {
+      results.push({
+        name: "determinism",
+        passed: divergentTurn === null,
+        actual: divergentTurn === null ? 0 : 1,
+        limit: 0,
+        message:
+          divergentTurn === null
+            ? `determinism: ${report.determinism.ticksCompared} ticks identical`
+            : `determinism: runners diverged at turn ${divergentTurn}`,
+      });
+    }
+  }
+  if (budgets.maxWarnings !== null) {
+    const warnings = report.summary.warnings.total;
+    results.push({
+      name: "warnings",
+      passed: warnings <= budgets.maxWarnings,
+      actual: warnings,
+      limit: budgets.maxWarnings,
+      message: `warnings: ${warnings} ${warnings <= budgets.maxWarnings ? "<=" : ">"} ${budgets.maxWarnings}`,
+    });
+  }
+  if (budgets.failOnStatsMismatch) {
+    const v = report.statsValidation;
+    const partial = v.complete ? "" : " (run did not reach the end of the replay)";
+    results.push({
+      name: "recorded stats",
+      passed: v.mismatches === 0,
+      actual: v.mismatches,
+      limit: 0,
+      message:
+        v.mismatches === 0
+          ? `recorded stats: all ${v.fieldsCompared} fields match${partial}`
+          : `recorded stats: ${v.mismatches} of ${v.fieldsCompared} fields differ${partial}`,
+    });
+  }
+  return results;
+}
+
+function xmlEscape(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Writes JUnit XML when `outPath` ends in `.xml`, JSON otherwise. */
+export async function writeAssertionResults(
+  outPath: string,
+  results: AssertionResult[],
+  meta: { gameID: string; replayPath: string; elapsedMs: number },
+): Promise<void> {
+  const failures = results.filter((r) => !r.passed).length;
+  if (!outPath.endsWith(".xml")) {
+    await fs.writeFile(
+      outPath,
+      JSON.stringify({ gameID: meta.gameID, replayPath: meta.replayPath, passed: failures === 0, failures, results }, null, 2),
+      "utf8",
+    );
+    return;
+  }
+
+  const suite = xmlEscape(`replay-analyzer.${meta.gameID}`);
+  const cases = results
+    .map((r) => {
+      const open = `    <testcase classname="${suite}" name="${xmlEscape(r.name)}" time="0">`;
+      if (r.passed) return `${open}\n      <system-out>${xmlEscape(r.message)}</system-out>\n    </testcase>`;
+      return `${open}\n      <failure message="${xmlEscape(r.message)}" type="budget">${xmlEscape(r.message)}</failure>\n    </testcase>`;
+    })
+    .join("\n");
+  const xml = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites tests="${results.length}" failures="${failures}">`,
+    `  <testsuite name="${suite}" tests="${results.length}" failures="${failures}" time="${(meta.elapsedMs / 1000).toFixed(3)}">`,
+    `    <properties><property name="replayPath" value="${xmlEscape(meta.replayPath)}"/></properties>`,
+    cases,
+    `  </testsuite>`,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+  await fs.writeFile(outPath, xml, "utf8");
+}
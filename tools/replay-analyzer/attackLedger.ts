@@ -0,0 +1,132 @@
+import type { Instrumentation } from "./instrumentation";
+import type { AttackLedgerEntry, AttackLedgerReport } from "./types";
+
+type OpenAttack = {
+  entry: AttackLedgerEntry;
+  attacker: any;
+  target: any;
+  attack: any;
+  returned: number;
+};
+
+export type AttackLedger = {
+  beforeTick: (turn: any) => void;
+  buildReport: () => AttackLedgerReport;
+};
+
+const intentMatchWindow = 10;
+const isPlayer = (p: any) => !!p && typeof p.isPlayer === "function" && p.isPlayer();
+
+/**
+ * Follows every AttackExecution from its first tick to the tick it deactivates. Tiles come from
+ * the attacker's `conquer` calls, defender losses from the target's `removeTroops` calls, and
+ * attacker losses are the troops sent minus whatever the execution handed back via `addTroops`.
+ * Attacks merged into an already running one keep their troops on that first attack.
+ */
+export function createAttackLedger(opts: { instrumentation: Instrumentation; maxAttacks: number }): AttackLedger {
+  const attacks: AttackLedgerEntry[] = [];
+  const openByExecution = new Map<any, OpenAttack>();
+  const droppedExecutions = new WeakSet<object>();
+  // Intent turns per "clientID|targetID", oldest first.
+  const pendingIntents = new Map<string, number[]>();
+  let turnNumber = 0;
+  let dropped = 0;
+  let current: OpenAttack | null = null;
+
+  function open(exec: any): OpenAttack | null {
+    const attack = exec.attack;
+    if (!attack || typeof attack.troops !== "function") return null;
+    const attacker = attack.attacker?.() ?? exec._owner;
+    const target = attack.target?.() ?? exec.target;
+    if (!attacker) return null;
+    if (attacks.length >= opts.maxAttacks) {
+      dropped++;
+      droppedExecutions.add(exec);
+      return null;
+    }
+
+    const clientID = attacker.clientID?.() ?? null;
+    // Intents the engine rejected never start an attack; don't let them match a much later one.
+    const pending = pendingIntents.get(`${clientID}|${isPlayer(target) ? target.id() : ""}`);
+    while (pending?.length && pending[0] < turnNumber - intentMatchWindow) pending.shift();
+    const entry: AttackLedgerEntry = {
+      attackerSmallID: attacker.smallID(),
+      attackerClientID: clientID,
+      attackerName: attacker.displayName(),
+      targetSmallID: isPlayer(target) ? target.smallID() : null,
+      targetName: isPlayer(target) ? target.displayName() : null,
+      intentTurn: pending?.shift() ?? null,
+      startTurn: turnNumber,
+      endTurn: null,
+      troopsSent: attack.troops(),
+      attackerLosses: 0,
+      defenderLosses: 0,
+      tilesCaptured: 0,
+    };
+    attacks.push(entry);
+    const rec = { entry, attacker, target, attack, returned: 0 };
+    openByExecution.set(exec, rec);
+    return rec;
+  }
+
+  function settle(rec: OpenAttack, remaining: number) {
+    rec.entry.attackerLosses = Math.max(0, Math.round(rec.entry.troopsSent - rec.returned - remaining));
+    rec.entry.defenderLosses = Math.round(rec.entry.defenderLosses);
+  }
+
+  const { instrumentation } = opts;
+  instrumentation.probe("AttackExecution.tick", {
+    report: false,
+    attributeCaller: false,
+    observe: (exec) => {
+      if (droppedExecutions.has(exec)) return;
+      current = openByExecution.get(exec) ?? open(exec);
+    },
+    after: (exec) => {
+      const rec = current;
+      current = null;
+      if (!rec || exec.isActive?.() !== false) return;
+      rec.entry.endTurn = turnNumber;
+      settle(rec, 0);
+      openByExecution.delete(exec);
+    },
+  });
+  instrumentation.probe("PlayerImpl.conquer", {
+    report: false,
+    attributeCaller: false,
+    observe: (self) => {
+      if (current && self === current.attacker) current.entry.tilesCaptured++;
+    },
+  });
+  instrumentation.probe("PlayerImpl.removeTroops", {
+    report: false,
+    attributeCaller: false,
+    observe: (self, [troops]) => {
+      if (current && self === current.target) current.entry.defenderLosses += Number(troops) || 0;
+    },
+  });
+  instrumentation.probe("PlayerImpl.addTroops", {
+    report: false,
+    attributeCaller: false,
+    observe: (self, [troops]) => {
+      if (current && self === current.attacker) current.returned += Number(troops) || 0;
+    },
+  });
+
+  return {
+    beforeTick: (turn: any) => {
+      turnNumber = turn.turnNumber;
+      for (const intent of turn.intents as any[]) {
+        if (intent?.type !== "attack") continue;
+        const key = `${intent.clientID}|${intent.targetID ?? ""}`;
+        const list = pendingIntents.get(key) ?? [];
+        list.push(turn.turnNumber);
+        pendingIntents.set(key, list);
+      }
+    },
+    buildReport: () => {
+      for (const rec of openByExecution.values()) settle(rec, Number(rec.attack.troops()) || 0);
+      return { attacks, dropped };
+    },
+  };
+}
@@ -0,0 +1,191 @@
+import fs from "node:fs/promises";
+import { execSync } from "node:child_process";
+import path from "node:path";
+import { performance } from "node:perf_hooks";
+import { fileURLToPath } from "node:url";
+import { batchUsage, parseBatchArgs } from "./args";
+import { batchIndexHtml } from "./batchIndexHtml";
+import { analyzeInChildProcess } from "./compareReplay";
+import { checkoutOpenFrontCommit, ensureGameDepsInstalled } from "./openfrontCheckout";
+import { extractReplayGitCommit, resolveReplayInputToPath } from "./replayLoader";
+import type { BatchIndexEntry } from "./types";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, "../..");
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`);
+}
+
+// A directory, a glob over file names in one directory, a single replay, or a list file.
+async function resolveBatchInputs(input: string): Promise<string[]> {
+  const abs = path.resolve(process.cwd(), input);
+  const stat = await fs.stat(abs).catch(() => null);
+
+  if (stat?.isDirectory()) {
+    const names = (await fs.readdir(abs)).filter((n) => n.endsWith(".json")).sort();
+    return names.map((n) => path.join(abs, n));
+  }
+  if (stat?.isFile()) {
+    if (abs.endsWith(".json")) return [abs];
+    const lines = (await fs.readFile(abs, "utf8")).split(/\r?\n/);
+    return lines.map((l) => l.replace(/#.*$/, "").trim()).filter((l) => l.length > 0);
+  }
+  if (/[*?]/.test(path.basename(abs))) {
+    const dir = path.dirname(abs);
+    const re = globToRegExp(path.basename(abs));
+    const names = (await fs.readdir(dir)).filter((n) => re.test(n)).sort();
+    return names.map((n) => path.join(dir, n));
+  }
+  throw new Error(`Batch input not found: ${input}`);
+}
+
+async function runPool<T>(items: T[], jobs: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(jobs, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+const { input, jobs, outDir, help, openfrontRoot, repoUrl, cacheDir, install, apiBase, maxTurns, economySampleEvery } =
+  parseBatchArgs(process.argv.slice(2));
+if (help || !input) {
+  console.log(batchUsage());
+  process.exit(help ? 0 : 1);
+}
+
+const log = console.log.bind(console);
+const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+const finalOutDir = outDir
+  ? path.resolve(process.cwd(), outDir)
+  : path.join(repoRoot, "replays", "out", `batch-${timestamp}`);
+await fs.mkdir(finalOutDir, { recursive: true });
+const resolvedCacheDir = cacheDir ? path.resolve(process.cwd(), cacheDir) : path.join(repoRoot, ".cache", "openfront");
+
+const inputs = await resolveBatchInputs(input);
+if (inputs.length === 0) {
+  throw new Error(`No replays found for ${input}`);
+}
+log(`batch: ${inputs.length} replays, ${jobs} jobs, output ${finalOutDir}`);
+
+const emptyEntry = (replayInput: string): BatchIndexEntry => ({
+  input: replayInput,
+  replayPath: null,
+  gameID: null,
+  gitCommit: null,
+  map: null,
+  reportHref: null,
+  logHref: null,
+  error: null,
+  elapsedMs: 0,
+  numTicksSimulated: 0,
+  tickExecutionMs: null,
+  hashMismatches: 0,
+  warnings: 0,
+  players: 0,
+});
+
+// Resolve inputs and group them by engine commit; fetching and checkouts run one at a time.
+const entries: BatchIndexEntry[] = [];
+const entriesByCommit = new Map<string, BatchIndexEntry[]>();
+for (const replayInput of inputs) {
+  const entry = emptyEntry(replayInput);
+  entries.push(entry);
+  try {
+    entry.replayPath = await resolveReplayInputToPath({ replayInput, apiBase, repoRoot, log });
+    entry.gitCommit = await extractReplayGitCommit(entry.replayPath);
+    if (!openfrontRoot && (entry.gitCommit === null || !/^[0-9a-f]{40}$/i.test(entry.gitCommit))) {
+      throw new Error(`Replay has no valid gitCommit: ${entry.gitCommit ?? "missing"}`);
+    }
+    const key = openfrontRoot ? "" : entry.gitCommit!;
+    entriesByCommit.set(key, [...(entriesByCommit.get(key) ?? []), entry]);
+  } catch (err) {
+    entry.error = err instanceof Error ? err.message : String(err);
+  }
+}
+
+const tasks: { entry: BatchIndexEntry; gameRoot: string }[] = [];
+for (const [commit, group] of entriesByCommit) {
+  try {
+    const gameRoot = openfrontRoot
+      ? path.resolve(process.cwd(), openfrontRoot)
+      : (await checkoutOpenFrontCommit({ repoUrl, commit, cacheDir: resolvedCacheDir, log })).gameRoot;
+    if (install) {
+      await ensureGameDepsInstalled({ gameRoot, log });
+    }
+    log(`batch: ${group.length} replays on ${commit || gameRoot}`);
+    for (const entry of group) tasks.push({ entry, gameRoot });
+  } catch (err) {
+    for (const entry of group) entry.error = err instanceof Error ? err.message : String(err);
+  }
+}
+
+// Children skip the chart build so parallel runs don't race on tools/dist.
+execSync("npm run build:charts", { stdio: "inherit", cwd: repoRoot });
+
+const usedNames = new Set<string>();
+let finished = 0;
+await runPool(tasks, jobs, async ({ entry, gameRoot }) => {
+  let base = path.basename(entry.replayPath!).replace(/\.json$/, "").replace(/[^a-zA-Z0-9_.-]+/g, "_");
+  while (usedNames.has(base)) base += "_";
+  usedNames.add(base);
+  const reportPath = path.join(finalOutDir, `${base}.report.html`);
+  const logPath = path.join(finalOutDir, `${base}.log`);
+  entry.logHref = path.basename(logPath);
+
+  const startedAt = performance.now();
+  try {
+    const report = await analyzeInChildProcess({
+      analyzerScript: path.join(__dirname, "analyzeReplay.ts"),
+      repoRoot,
+      replayPath: entry.replayPath!,
+      openfrontRoot: gameRoot,
+      outPath: reportPath,
+      logPath,
+      extraArgs: [
+        "--apiBase",
+        apiBase,
+        "--noChartBuild",
+        ...(economySampleEvery !== null ? ["--economySampleEvery", String(economySampleEvery)] : []),
+        ...(maxTurns !== null ? ["--maxTurns", String(maxTurns)] : []),
+      ],
+    });
+    entry.reportHref = path.basename(reportPath);
+    entry.gameID = report.meta.gameID;
+    entry.map = report.meta.map;
+    entry.numTicksSimulated = report.meta.numTicksSimulated;
+    entry.tickExecutionMs = report.summary.tickExecutionMs;
+    entry.hashMismatches = report.summary.hashChecks.mismatches;
+    entry.warnings = report.summary.warnings.total;
+    entry.players = report.meta.players.total;
+  } catch (err) {
+    entry.error = `${err instanceof Error ? err.message : String(err)} (see log)`;
+  }
+  entry.elapsedMs = performance.now() - startedAt;
+
+  finished++;
+  const summary = entry.error
+    ? `failed: ${entry.error}`
+    : `p95 ${entry.tickExecutionMs!.p95.toFixed(3)}ms | p99 ${entry.tickExecutionMs!.p99.toFixed(3)}ms | mismatches ${entry.hashMismatches}`;
+  log(`[${finished}/${tasks.length}] ${entry.gameID ?? entry.input}: ${summary}`);
+});
+
+const indexPath = path.join(finalOutDir, "index.html");
+await fs.writeFile(
+  indexPath,
+  batchIndexHtml(entries, { generatedAt: new Date().toISOString(), input, jobs }),
+  "utf8",
+);
+
+const failed = entries.filter((e) => e.error !== null).length;
+console.log("");
+console.log(`done: ${entries.length - failed}/${entries.length} replays analyzed`);
+console.log(`index: ${indexPath}`);
+if (failed > 0) {
+  process.exitCode = 1;
+}
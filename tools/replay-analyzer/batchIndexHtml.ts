@@ -0,0 +1,127 @@
+import type { BatchIndexEntry } from "./types";
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function fmtMs(n: number | undefined): string {
+  return n === undefined ? "" : n.toFixed(n >= 10 ? 1 : 3);
+}
+
+export function batchIndexHtml(entries: BatchIndexEntry[], meta: { generatedAt: string; input: string; jobs: number }): string {
+  // Worst first: failed analyses, then by p95.
+  const ranked = [...entries].sort(
+    (a, b) =>
+      Number(b.error !== null) - Number(a.error !== null) ||
+      (b.tickExecutionMs?.p95 ?? 0) - (a.tickExecutionMs?.p95 ?? 0),
+  );
+  const failed = entries.filter((e) => e.error !== null).length;
+
+  const rows = ranked
+    .map((e, i) => {
+      const t = e.tickExecutionMs;
+      const name = escapeHtml(e.gameID ?? e.input);
+      const link = e.reportHref ? `<a href="${escapeHtml(e.reportHref)}">${name}</a>` : name;
+      const log = e.logHref ? ` <a class="muted" href="${escapeHtml(e.logHref)}">log</a>` : "";
+      const status = e.error
+        ? `<span class="bad">${escapeHtml(e.error.split("\n")[0])}</span>`
+        : e.hashMismatches > 0
+          ? `<span class="bad">desync</span>`
+          : "ok";
+      return `<tr>
+        <td class="mono" data-v="${i}">${i + 1}</td>
+        <td class="mono">${link}${log}</td>
+        <td>${escapeHtml(e.map ?? "")}</td>
+        <td class="mono">${escapeHtml((e.gitCommit ?? "").slice(0, 12))}</td>
+        <td class="mono" data-v="${e.numTicksSimulated}">${e.numTicksSimulated}</td>
+        <td class="mono" data-v="${t?.p50 ?? -1}">${fmtMs(t?.p50)}</td>
+        <td class="mono" data-v="${t?.p95 ?? -1}">${fmtMs(t?.p95)}</td>
+        <td class="mono" data-v="${t?.p99 ?? -1}">${fmtMs(t?.p99)}</td>
+        <td class="mono" data-v="${t?.max ?? -1}">${fmtMs(t?.max)}</td>
+        <td class="mono${e.hashMismatches > 0 ? " bad" : ""}" data-v="${e.hashMismatches}">${e.hashMismatches}</td>
+        <td class="mono" data-v="${e.warnings}">${e.warnings}</td>
+        <td class="mono" data-v="${e.elapsedMs}">${(e.elapsedMs / 1000).toFixed(1)}s</td>
+        <td>${status}</td>
+      </tr>`;
+    })
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>OpenFront Replay Perf Batch - ${escapeHtml(meta.input)}</title>
+    <style>
+      :root { color-scheme: light dark; }
+      body {
+        font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial;
+        margin: 0;
+        background: #0b1220;
+        color: #e5e7eb;
+      }
+      header { padding: 18px 22px; border-bottom: 1px solid rgba(255,255,255,0.08); }
+      header h1 { margin: 0 0 6px 0; font-size: 18px; }
+      header .meta { font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace; font-size: 12px; opacity: 0.85; }
+      main { padding: 16px 22px 40px; margin: 0 auto; }
+      .card { background: rgba(255,255,255,0.04); border: 1px solid rgba(255,255,255,0.08); border-radius: 12px; padding: 12px 12px 8px; }
+      table { width: 100%; border-collapse: collapse; }
+      th, td { text-align: left; padding: 8px 10px; border-bottom: 1px solid rgba(255,255,255,0.08); font-size: 12px; vertical-align: top; }
+      th { opacity: 0.85; cursor: pointer; user-select: none; }
+      a { color: #60a5fa; }
+      .mono { font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace; }
+      .muted { opacity: 0.75; }
+      .bad { color: #fb7185; }
+    </style>
+  </head>
+  <body>
+    <header>
+      <h1>OpenFront Replay Perf Batch</h1>
+      <div class="meta">
+        input: ${escapeHtml(meta.input)} | replays: ${entries.length} | failed: ${failed} | jobs: ${meta.jobs}<br/>
+        generated: ${meta.generatedAt}
+      </div>
+    </header>
+    <main>
+      <div class="card">
+        <div class="muted" style="font-size: 12px; margin: 0 0 10px;">Ranked by p95 tick time. Click a column header to re-sort.</div>
+        <table id="batch-table">
+          <thead>
+            <tr>
+              <th>#</th><th>Game</th><th>Map</th><th>Commit</th><th>Turns</th>
+              <th>p50 (ms)</th><th>p95 (ms)</th><th>p99 (ms)</th><th>max (ms)</th>
+              <th>Hash mismatches</th><th>Warnings</th><th>Wall time</th><th>Status</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>
+    </main>
+    <script>
+      (function () {
+        const table = document.getElementById("batch-table");
+        const tbody = table.querySelector("tbody");
+        let lastCol = -1;
+        let desc = true;
+        table.querySelectorAll("th").forEach(function (th, col) {
+          th.addEventListener("click", function () {
+            desc = col === lastCol ? !desc : col !== 0;
+            lastCol = col;
+            const value = function (tr) {
+              const td = tr.children[col];
+              return td.dataset.v !== undefined ? Number(td.dataset.v) : td.textContent;
+            };
+            const rows = Array.from(tbody.children).sort(function (a, b) {
+              const av = value(a);
+              const bv = value(b);
+              const c = typeof av === "number" ? av - bv : String(av).localeCompare(String(bv));
+              return desc ? -c : c;
+            });
+            rows.forEach(function (r) { tbody.appendChild(r); });
+          });
+        });
+      })();
+    </script>
+  </body>
+</html>`;
+}
@@ -0,0 +1,123 @@
+import type { SimulationResult } from "./simulateReplay";
+import type { BenchmarkReport, BenchmarkRunSummary, TrackerOverheadReport } from "./types";
+import { confidenceInterval95, percentile } from "./utils";
+
+export function summarizeRun(sim: SimulationResult): BenchmarkRunSummary {
+  const values = sim.tickExecutionMsValues;
+  return {
+    elapsedMs: sim.elapsedMs,
+    avg: values.reduce((a, b) => a + b, 0) / Math.max(1, values.length),
+    p50: percentile(values, 0.5),
+    p95: percentile(values, 0.95),
+    p99: percentile(values, 0.99),
+    max: values.reduce((a, b) => Math.max(a, b), 0),
+  };
+}
+
+/**
+ * Runs the replay `warmupRuns + runs` times and aggregates the measured runs. `simulate` must
+ * create a fresh game each time; warm-up runs only exist to get the JIT and caches into a steady state.
+ */
+export async function runBenchmark(opts: {
+  turns: number[];
+  runs: number;
+  warmupRuns: number;
+  simulate: () => Promise<SimulationResult>;
+  log?: (msg: string) => void;
+}): Promise<BenchmarkReport> {
+  const log = opts.log ?? (() => {});
+
+  for (let i = 0; i < opts.warmupRuns; i++) {
+    const sim = await opts.simulate();
+    log(`benchmark: warm-up ${i + 1}/${opts.warmupRuns} in ${Math.round(sim.elapsedMs)}ms`);
+  }
+
+  const perRun: BenchmarkRunSummary[] = [];
+  // tickMsByRun[run][tickIdx]
+  const tickMsByRun: number[][] = [];
+  for (let i = 0; i < opts.runs; i++) {
+    const sim = await opts.simulate();
+    perRun.push(summarizeRun(sim));
+    tickMsByRun.push(sim.tickExecutionMsValues);
+    log(`benchmark: run ${i + 1}/${opts.runs} in ${Math.round(sim.elapsedMs)}ms`);
+  }
+
+  const medianMs: number[] = [];
+  const minMs: number[] = [];
+  const column: number[] = new Array(opts.runs);
+  for (let t = 0; t < opts.turns.length; t++) {
+    for (let r = 0; r < opts.runs; r++) column[r] = tickMsByRun[r][t] ?? 0;
+    medianMs.push(Math.round(percentile(column, 0.5) * 1000) / 1000);
+    minMs.push(Math.round(Math.min(...column) * 1000) / 1000);
+  }
+
+  const metric = (key: keyof BenchmarkRunSummary) => confidenceInterval95(perRun.map((r) => r[key]));
+  return {
+    runs: opts.runs,
+    warmupRuns: opts.warmupRuns,
+    turns: opts.turns,
+    medianMs,
+    minMs,
+    perRun,
+    stats: {
+      elapsedMs: metric("elapsedMs"),
+      avg: metric("avg"),
+      p50: metric("p50"),
+      p95: metric("p95"),
+      p99: metric("p99"),
+      max: metric("max"),
+    },
+  };
+}
+
+/**
+ * Compares the instrumented run against a tracker-free baseline: the mean of the benchmark runs
+ * when there are any, otherwise one extra bare run from `simulate` after `warmupRuns` discarded ones.
+ */
+export async function measureTrackerOverhead(opts: {
+  instrumented: SimulationResult;
+  benchmark: BenchmarkReport | null;
+  attribution: Pick<TrackerOverheadReport, "attribution" | "attributedCalls" | "callSites">;
+  warmupRuns: number;
+  simulate: () => Promise<SimulationResult>;
+  log?: (msg: string) => void;
+}): Promise<TrackerOverheadReport> {
+  const instrumented = summarizeRun(opts.instrumented);
+  let baseline: BenchmarkRunSummary;
+  if (opts.benchmark) {
+    const stats = opts.benchmark.stats;
+    baseline = {
+      elapsedMs: stats.elapsedMs.mean,
+      avg: stats.avg.mean,
+      p50: stats.p50.mean,
+      p95: stats.p95.mean,
+      p99: stats.p99.mean,
+      max: stats.max.mean,
+    };
+  } else {
+    for (let i = 0; i < opts.warmupRuns; i++) {
+      const sim = await opts.simulate();
+      opts.log?.(`tracker overhead: warm-up ${i + 1}/${opts.warmupRuns} in ${Math.round(sim.elapsedMs)}ms`);
+    }
+    baseline = summarizeRun(await opts.simulate());
+  }
+
+  const pct = (key: keyof BenchmarkRunSummary) =>
+    baseline[key] > 0 ? ((instrumented[key] - baseline[key]) / baseline[key]) * 100 : 0;
+  const overheadPct: BenchmarkRunSummary = {
+    elapsedMs: pct("elapsedMs"),
+    avg: pct("avg"),
+    p50: pct("p50"),
+    p95: pct("p95"),
+    p99: pct("p99"),
+    max: pct("max"),
+  };
+  opts.log?.(`tracker overhead: ${overheadPct.avg.toFixed(1)}% avg tick, ${overheadPct.elapsedMs.toFixed(1)}% wall time`);
+  return {
+    ...opts.attribution,
+    baselineRuns: opts.benchmark?.runs ?? 1,
+    instrumented,
+    baseline,
+    overheadPct,
+  };
+}
@@ -0,0 +1,127 @@
+import type { BuildOrderEntry, BuildOrderPlayer, BuildOrderReport } from "./types";
+
+export type BuildOrderTracker = {
+  beforeTick: (game: any, turn: any) => void;
+  afterTick: (turnNumber: number, unitUpdates: any[]) => void;
+  buildReport: () => BuildOrderReport;
+};
+
+const matchWindowTurns = 100;
+const turnMs = 100;
+
+/**
+ * Collects `build_unit` and `upgrade_structure` intents per player and checks each against the
+ * units the engine actually created (or upgraded) within a short window after the intent.
+ */
+export function createBuildOrderTracker(): BuildOrderTracker {
+  const players = new Map<number, BuildOrderPlayer>();
+  // Unmatched builds per "smallID|unitType" and upgrades per unit id, oldest first.
+  const pendingBuilds = new Map<string, BuildOrderEntry[]>();
+  const pendingUpgrades = new Map<number, BuildOrderEntry[]>();
+  // Older engines replace a finished Construction unit with a new one; that one isn't a new build.
+  const finishedConstructions = new Map<string, number>();
+  const seenUnitIds = new Set<number>();
+  const levelByUnit = new Map<number, number>();
+
+  function playerFor(game: any, clientID: unknown): { player: any; entry: BuildOrderPlayer } | null {
+    if (typeof clientID !== "string") return null;
+    const player = game.playerByClientID?.(clientID);
+    if (!player) return null;
+    const smallID = player.smallID();
+    let entry = players.get(smallID);
+    if (!entry) {
+      entry = { smallID, clientID, displayName: player.displayName(), entries: [] };
+      players.set(smallID, entry);
+    }
+    return { player, entry };
+  }
+
+  function enqueue<K>(map: Map<K, BuildOrderEntry[]>, key: K, entry: BuildOrderEntry) {
+    const list = map.get(key) ?? [];
+    list.push(entry);
+    map.set(key, list);
+  }
+
+  function take<K>(map: Map<K, BuildOrderEntry[]>, key: K, turnNumber: number): BuildOrderEntry | null {
+    const list = map.get(key);
+    while (list?.length && list[0].turn < turnNumber - matchWindowTurns) list.shift();
+    return list?.shift() ?? null;
+  }
+
+  return {
+    beforeTick: (game: any, turn: any) => {
+      for (const intent of turn.intents as any[]) {
+        const kind = intent?.type === "build_unit" ? "build" : intent?.type === "upgrade_structure" ? "upgrade" : null;
+        if (!kind) continue;
+        const found = playerFor(game, intent.clientID);
+        if (!found) continue;
+        const entry: BuildOrderEntry = {
+          kind,
+          unitType: String(intent.unit ?? "unknown"),
+          turn: turn.turnNumber,
+          gameTimeSec: (turn.turnNumber * turnMs) / 1000,
+          gold: Number(found.player.gold?.() ?? 0),
+          built: false,
+          builtTurn: null,
+          unitID: null,
+        };
+        found.entry.entries.push(entry);
+        if (kind === "build") enqueue(pendingBuilds, `${found.entry.smallID}|${entry.unitType}`, entry);
+        else if (Number.isFinite(Number(intent.unitId))) enqueue(pendingUpgrades, Number(intent.unitId), entry);
+      }
+    },
+    afterTick: (turnNumber: number, unitUpdates: any[]) => {
+      for (const u of unitUpdates ?? []) {
+        const id = Number(u?.id);
+        if (!Number.isFinite(id)) continue;
+
+        const level = Number(u.level);
+        if (Number.isFinite(level)) {
+          const previous = levelByUnit.get(id);
+          levelByUnit.set(id, level);
+          if (previous !== undefined && level > previous) {
+            const upgrade = take(pendingUpgrades, id, turnNumber);
+            if (upgrade) Object.assign(upgrade, { built: true, builtTurn: turnNumber, unitID: id });
+          }
+        }
+
+        if (seenUnitIds.has(id)) continue;
+        seenUnitIds.add(id);
+        const isConstruction = u.unitType === "Construction" && u.constructionType !== undefined;
+        const key = `${Number(u.ownerID)}|${String(isConstruction ? u.constructionType : u.unitType)}`;
+        const skip = finishedConstructions.get(key) ?? 0;
+        if (!isConstruction && skip > 0) {
+          finishedConstructions.set(key, skip - 1);
+          continue;
+        }
+        const build = take(pendingBuilds, key, turnNumber);
+        if (!build) continue;
+        Object.assign(build, { built: true, builtTurn: turnNumber, unitID: id });
+        if (isConstruction) finishedConstructions.set(key, skip + 1);
+      }
+    },
+    buildReport: () => ({
+      players: [...players.values()].sort((a, b) => b.entries.length - a.entries.length),
+      matchWindowTurns,
+    }),
+  };
+}
+
+// Player names come from the replay; a leading = + - @ would make a spreadsheet evaluate them.
+const csvField = (value: unknown) => {
+  let s = value === null || value === undefined ? "" : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\n']/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function buildOrderCsv(report: BuildOrderReport): string {
+  const header = ["player", "clientID", "kind", "unitType", "turn", "gameTimeSec", "gold", "built", "builtTurn", "unitID"];
+  const rows = report.players.flatMap((p) =>
+    p.entries.map((e) =>
+      [p.displayName, p.clientID, e.kind, e.unitType, e.turn, e.gameTimeSec, e.gold, e.built, e.builtTurn, e.unitID]
+        .map(csvField)
+        .join(","),
+    ),
+  );
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
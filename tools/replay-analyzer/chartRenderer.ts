@@ -11,6 +11,8 @@ interface ReplayPerfReport {
     mapSize: string;
     numTurns: number;
     numTicksSimulated: number;
+    fromTurn: number | null;
+    stoppedAtTurn: number | null;
     unknownClientIds: {
       total: number;
       withNonMarkIntents: number;
@@ -39,6 +41,27 @@ interface ReplayPerfReport {
       compared: number;
       mismatches: number;
     };
+    gc: {
+      count: number;
+      totalMs: number;
+      byKind: Record<string, { count: number; totalMs: number }>;
+      ticksWithMajorGc: number;
+      events: Array<{ kind: string; durationMs: number; turnNumber: number | null }>;
+    };
+    slowTicks: {
+      threshold: string;
+      thresholdMs: number | null;
+      total: number;
+      ticks: Array<{
+        turnNumber: number;
+        tickExecutionMs: number;
+        thresholdMs: number;
+        players: number;
+        intents: Array<{ type: string; clientID: string | null; displayName: string | null; count: number }>;
+        conquests: Array<{ conqueror: string; conquered: string; gold: string }>;
+        newUnits: Array<{ unitType: string; owner: string; count: number }>;
+      }>;
+    };
     warnings: {
       total: number;
       missingClientId: {
@@ -66,6 +89,15 @@ interface ReplayPerfReport {
     aliveHumans: number;
     connectedAliveHumans: number;
     spawnedHumans: number;
+    heapUsedMb: number;
+    heapTotalMb: number;
+    rssMb: number;
+    gcMs: number;
+    majorGc: boolean;
+    updates: number;
+    updateBytes: number;
+    tileUpdates: number;
+    updatesByType: Record<string, number>;
   }>;
   economy: {
     sampleEveryTurns: number;
@@ -110,6 +142,349 @@ interface ReplayPerfReport {
     goldEarnedReplayTotal?: number;
     unitsOwned: Record<string, number>;
   }>;
+  statsReconciliation: {
+    tolerancePct: number;
+    complete: boolean;
+    playersCompared: number;
+    engineDrift: number;
+    accountingMismatches: number;
+    rows: Array<{
+      clientID: string;
+      displayName: string;
+      category: string;
+      recorded: string | null;
+      simulated: string;
+      analyzer: string | null;
+      recordedDiffPct: number | null;
+      analyzerDiffPct: number | null;
+      engineDrift: boolean;
+      accountingMismatch: boolean;
+    }>;
+  };
+  statsValidation: {
+    complete: boolean;
+    schemaFields: string[];
+    fieldsCompared: number;
+    mismatches: number;
+    players: Array<{
+      clientID: string;
+      displayName: string;
+      missingInRecord: boolean;
+      fieldsCompared: number;
+      matching: number;
+      mismatching: number;
+      mismatches: { path: string; recorded: string | null; simulated: string | null }[];
+    }>;
+  };
+  attackLedger: {
+    attacks: AttackLedgerEntry[];
+    dropped: number;
+  } | null;
+  tradeRoutes: {
+    ships: TradeShipEntry[];
+    dropped: number;
+  } | null;
+  railNetwork: {
+    stations: RailStationEntry[];
+    segments: Array<{ fromUnitID: number; toUnitID: number; tiles: number; builtTurn: number; ownerSmallID: number | null }>;
+    trips: TrainTripEntry[];
+    droppedTrips: number;
+    incomeByPlayer: Record<number, number>;
+    turns: number[];
+    activeTrains: number[];
+    trainTickMs: number[];
+  } | null;
+  buildOrder: {
+    players: Array<{ smallID: number; clientID: string; displayName: string; entries: BuildOrderEntry[] }>;
+    matchWindowTurns: number;
+  };
+  nukes: {
+    nukes: NukeEntry[];
+    dropped: number;
+  } | null;
+  standings: {
+    players: StandingsPlayer[];
+    turns: number[];
+    ranksBySmallID: Record<number, (number | null)[]>;
+    recordedWinner: { kind: "player" | "team"; id: string; displayName: string } | null;
+    reconstructedWinner: { kind: "player" | "team"; id: string; displayName: string } | null;
+    winnerMatches: boolean | null;
+  };
+  territory: {
+    width: number;
+    height: number;
+    stride: number;
+    gridWidth: number;
+    gridHeight: number;
+    sampleEveryTurns: number;
+    terrain: string | null;
+    palette: { smallID: number; displayName: string }[];
+    snapshots: Array<{ turn: number; owners: string }>;
+  } | null;
+  diplomacy: {
+    players: { smallID: number; clientID: string | null; displayName: string }[];
+    events: DiplomacyEvent[];
+    dropped: number;
+  };
+  desync: DesyncReport | null;
+  determinism: DeterminismReport | null;
+  executionTiming: {
+    turns: number[];
+    classes: string[];
+    msByClass: Record<string, number[]>;
+    callsByClass: Record<string, number[]>;
+  } | null;
+  instrumentation: {
+    turns: number[];
+    probes: Array<{
+      target: string;
+      resolved: boolean;
+      totalCalls: number;
+      totalMs: number;
+      calls: number[];
+      ms: number[];
+      callers: { caller: string; calls: number; ms: number }[];
+    }>;
+  } | null;
+  trackerOverhead: {
+    attribution: "fast" | "precise";
+    attributedCalls: number;
+    callSites: number;
+    baselineRuns: number;
+    instrumented: Record<BenchmarkMetric, number>;
+    baseline: Record<BenchmarkMetric, number>;
+    overheadPct: Record<BenchmarkMetric, number>;
+  } | null;
+  benchmark: {
+    runs: number;
+    warmupRuns: number;
+    turns: number[];
+    medianMs: number[];
+    minMs: number[];
+    perRun: Array<Record<BenchmarkMetric, number>>;
+    stats: Record<BenchmarkMetric, { mean: number; stddev: number; low: number; high: number }>;
+  } | null;
+  compare: {
+    base: { label: string };
+    other: { label: string; reportPath: string };
+    otherTickExecutionMs: Array<number | null>;
+    percentiles: Array<{ metric: string; base: number; other: number; delta: number; deltaPct: number | null }>;
+    hashes: {
+      compared: number;
+      diverging: number;
+      firstDivergingTick: number | null;
+      samples: Array<{ tick: number; base: number; other: number }>;
+      otherMismatchesVsReplay: number;
+    };
+    players: Array<{ clientID: string; displayName: string; base: ComparePlayerMetrics; other: ComparePlayerMetrics }>;
+  } | null;
+  cpuProfiles: CpuProfileSummary[];
+  assertions: Array<{ name: string; passed: boolean; actual: number; limit: number; message: string }>;
+}
+
+interface FlameNode {
+  n: string;
+  f: string;
+  v: number;
+  s: number;
+  c?: FlameNode[];
+}
+
+interface CpuProfileSummary {
+  label: string;
+  outPath: string;
+  totalMs: number;
+  sampleCount: number;
+  functions: Array<{ functionName: string; file: string; line: number; selfMs: number; totalMs: number }>;
+  files: Array<{ file: string; selfMs: number; totalMs: number }>;
+  flame: FlameNode;
+}
+
+interface ComparePlayerMetrics {
+  tilesOwned: number;
+  tilesOwnedMax: number;
+  troops: number;
+  gold: number;
+  goldEarnedTotal: number | null;
+  goldEarnedTradeTotal: number | null;
+  goldEarnedTrainTotal: number | null;
+  goldEarnedConquerTotal: number | null;
+  goldSpentTotal: number | null;
+}
+
+type AttackLedgerEntry = {
+  attackerSmallID: number;
+  attackerClientID: string | null;
+  attackerName: string;
+  targetSmallID: number | null;
+  targetName: string | null;
+  intentTurn: number | null;
+  startTurn: number;
+  endTurn: number | null;
+  troopsSent: number;
+  attackerLosses: number;
+  defenderLosses: number;
+  tilesCaptured: number;
+};
+
+type TradeShipEntry = {
+  srcPortID: number;
+  dstPortID: number;
+  srcOwnerSmallID: number;
+  srcOwnerName: string;
+  dstOwnerSmallID: number;
+  dstOwnerName: string;
+  startTurn: number;
+  endTurn: number | null;
+  tilesTraveled: number;
+  outcome: "arrived" | "captured" | "sunk" | "sailing";
+  captorSmallID: number | null;
+  captorName: string | null;
+  goldToSource: number;
+  goldToDestination: number;
+  goldToCaptor: number;
+};
+
+type RailStationEntry = {
+  unitID: number;
+  unitType: string;
+  ownerSmallID: number;
+  ownerName: string;
+  builtTurn: number;
+  removedTurn: number | null;
+  stops: number;
+  revenue: number;
+};
+
+type TrainTripEntry = {
+  ownerSmallID: number;
+  ownerName: string;
+  originUnitID: number;
+  destinationUnitID: number;
+  originOwnerName: string;
+  destinationOwnerName: string;
+  startTurn: number;
+  endTurn: number | null;
+  revenue: number;
+};
+
+type BuildOrderEntry = {
+  kind: "build" | "upgrade";
+  unitType: string;
+  turn: number;
+  gameTimeSec: number;
+  gold: number;
+  built: boolean;
+  builtTurn: number | null;
+  unitID: number | null;
+};
+
+type NukeEntry = {
+  nukeType: string;
+  ownerSmallID: number;
+  ownerName: string;
+  siloUnitID: number | null;
+  launchTurn: number;
+  targetTile: number;
+  targetX: number | null;
+  targetY: number | null;
+  targetSmallID: number | null;
+  targetName: string | null;
+  endTurn: number | null;
+  outcome: "detonated" | "intercepted" | "split" | "lost" | "inFlight";
+  interceptorSmallID: number | null;
+  interceptorName: string | null;
+  samUnitID: number | null;
+  tilesDestroyed: number;
+  troopsKilled: number;
+  victims: Array<{ smallID: number; displayName: string; tiles: number; troops: number; unitsLost: Record<string, number>; goldLost: number }>;
+};
+
+type StandingsPlayer = {
+  smallID: number;
+  clientID: string | null;
+  displayName: string;
+  type: string;
+  team: string | null;
+  placement: number;
+  alive: boolean;
+  eliminatedTurn: number | null;
+  eliminatedBySmallID: number | null;
+  eliminatedByName: string | null;
+  peakRank: number | null;
+  peakRankTurn: number | null;
+  finalTiles: number;
+  maxTiles: number;
+};
+
+type DiplomacyEventKind =
+  "request" | "accept" | "reject" | "expire" | "extend" | "break" | "betrayal" | "embargoStart" | "embargoStop" | "target";
+
+type DiplomacyEvent = {
+  turn: number;
+  kind: DiplomacyEventKind;
+  player: number;
+  other: number | null;
+  source: "engine" | "intent";
+};
+
+type BenchmarkMetric = "elapsedMs" | "avg" | "p50" | "p95" | "p99" | "max";
+
+interface DesyncPlayerState {
+  smallID: number;
+  clientID: string | null;
+  displayName: string;
+  isAlive: boolean;
+  tiles: number;
+  troops: number;
+  gold: string;
+  hash: number | null;
+  units: Record<string, number>;
+  executions: Record<string, number>;
+}
+
+interface DesyncCheckpoint {
+  tick: number;
+  expectedHash: number | null;
+  actualHash: number | null;
+  players: DesyncPlayerState[];
+  executions: Record<string, number>;
+}
+
+interface DeterminismPlayerState {
+  tiles: number;
+  troops: number;
+  gold: string;
+}
+
+interface DeterminismReport {
+  ticksCompared: number;
+  hashesCompared: number;
+  elapsedMs: number;
+  firstDivergentTurn: number | null;
+  hashDivergence: { tick: number; a: number; b: number } | null;
+  players: Array<{ smallID: number; clientID: string | null; displayName: string; a: DeterminismPlayerState | null; b: DeterminismPlayerState | null }>;
+}
+
+interface DesyncReport {
+  firstMismatchTick: number;
+  expectedHash: number;
+  actualHash: number;
+  reproduced: boolean;
+  resimulatedMs: number;
+  previousCheckpoint: DesyncCheckpoint | null;
+  failingCheckpoint: DesyncCheckpoint;
+  playerDiffs: Array<{
+    smallID: number;
+    clientID: string | null;
+    displayName: string;
+    tilesDelta: number;
+    troopsDelta: number;
+    goldDelta: string;
+    hashDelta: number | null;
+    unitsDelta: Record<string, number>;
+    executionsDelta: Record<string, number>;
+  }>;
 }
 
 declare const d3: any;
@@ -117,10 +492,13 @@ declare const d3: any;
 const report: ReplayPerfReport = JSON.parse(document.getElementById("report-data")!.textContent!);
 const tooltip = document.getElementById("tooltip")!;
 
-// Timeline state
-let timelineStartTurn = 1;
+// Timeline state; with --fromTurn the timeline starts at the first measured turn.
+const timelineMinTurn = Math.max(1, report.meta.fromTurn ?? 1);
+let timelineStartTurn = timelineMinTurn;
 let timelineEndTurn = report.meta.numTicksSimulated;
 let timelineInitialized = false;
+// Set by initTimelineControls so other widgets can move the range bar.
+let setTimelineRange: (start: number, end: number) => void = () => {};
 
 const fmtMs = (n: number) => (Number.isFinite(n) ? n.toFixed(3) : "n/a");
 const fmtInt = (n: number) => (Number.isFinite(n) ? String(Math.round(n)) : "n/a");
@@ -166,8 +544,8 @@ function toggleDiagnostics() {
 
 function updateTimelineDisplay() {
   const display = document.getElementById("timeline-range-display")!;
-  if (timelineStartTurn === 1 && timelineEndTurn === report.meta.numTicksSimulated) {
-    display.textContent = "All turns";
+  if (timelineStartTurn === timelineMinTurn && timelineEndTurn === report.meta.numTicksSimulated) {
+    display.textContent = report.meta.fromTurn !== null ? `All measured turns (from ${timelineMinTurn})` : "All turns";
   } else {
     display.textContent = `Turns ${timelineStartTurn} - ${timelineEndTurn}`;
   }
@@ -211,7 +589,7 @@ function calculateFilteredPlayerStats() {
   }
 
   const { filteredTurns, filteredSeries } = filterEconomyDataByTimeline(econ.turns, econ.seriesByClientId);
-  const isTimelineFiltered = timelineStartTurn !== 1 || timelineEndTurn !== report.meta.numTicksSimulated;
+  const isTimelineFiltered = timelineStartTurn !== timelineMinTurn || timelineEndTurn !== report.meta.numTicksSimulated;
 
   if (!isTimelineFiltered) {
     return report.players; // Return original data if timeline shows full range
@@ -277,7 +655,7 @@ function initTimelineControls() {
   if (!rangeBarContainer || !resetButton) return;
 
   const maxTurns = report.meta.numTicksSimulated;
-  const denom = Math.max(1, maxTurns - 1);
+  const denom = Math.max(1, maxTurns - timelineMinTurn);
   const logicalWidth = 1000; // internal coordinate system; SVG scales to fit available space
   const height = 20;
 
@@ -353,8 +731,8 @@ function initTimelineControls() {
   }
 
   function updateRangeBar(updateCharts = true) {
-    const startX = ((timelineStartTurn - 1) / denom) * logicalWidth;
-    const endX = ((timelineEndTurn - 1) / denom) * logicalWidth;
+    const startX = ((timelineStartTurn - timelineMinTurn) / denom) * logicalWidth;
+    const endX = ((timelineEndTurn - timelineMinTurn) / denom) * logicalWidth;
 
     selectionTrack
       .attr("x", startX)
@@ -371,13 +749,13 @@ function initTimelineControls() {
 
   function getTurnFromX(x: number) {
     const ratio = Math.max(0, Math.min(1, x / logicalWidth));
-    return Math.round(ratio * denom) + 1;
+    return Math.round(ratio * denom) + timelineMinTurn;
   }
 
   svg.on("mousedown", function(event: MouseEvent) {
     const mouseX = pointerX(event);
-    const startX = ((timelineStartTurn - 1) / denom) * logicalWidth;
-    const endX = ((timelineEndTurn - 1) / denom) * logicalWidth;
+    const startX = ((timelineStartTurn - timelineMinTurn) / denom) * logicalWidth;
+    const endX = ((timelineEndTurn - timelineMinTurn) / denom) * logicalWidth;
     const slop = handleHitSlopX(10);
 
     // Determine which handle to drag or if clicking between handles
@@ -408,7 +786,7 @@ function initTimelineControls() {
 
     if (dragging === 'start') {
       newStart = getTurnFromX(mouseX);
-      newStart = Math.max(1, Math.min(newEnd - 1, newStart));
+      newStart = Math.max(timelineMinTurn, Math.min(newEnd - 1, newStart));
     } else if (dragging === 'end') {
       newEnd = getTurnFromX(mouseX);
       newEnd = Math.max(newStart + 1, Math.min(maxTurns, newEnd));
@@ -417,7 +795,7 @@ function initTimelineControls() {
       const newEndX = newStartX + (((timelineEndTurn - timelineStartTurn) / denom) * logicalWidth);
       newStart = getTurnFromX(newStartX);
       newEnd = getTurnFromX(newEndX);
-      newStart = Math.max(1, Math.min(maxTurns - 1, newStart));
+      newStart = Math.max(timelineMinTurn, Math.min(maxTurns - 1, newStart));
       newEnd = Math.max(newStart + 1, Math.min(maxTurns, newEnd));
     }
 
@@ -440,7 +818,7 @@ function initTimelineControls() {
   });
 
   const resetTimeline = () => {
-    timelineStartTurn = 1;
+    timelineStartTurn = timelineMinTurn;
     timelineEndTurn = maxTurns;
     updateRangeBar();
     renderAll();
@@ -448,12 +826,18 @@ function initTimelineControls() {
 
   resetButton.addEventListener("click", resetTimeline);
 
+  setTimelineRange = (start: number, end: number) => {
+    timelineStartTurn = Math.max(timelineMinTurn, Math.min(maxTurns - 1, start));
+    timelineEndTurn = Math.max(timelineStartTurn + 1, Math.min(maxTurns, end));
+    updateRangeBar();
+  };
+
   // Initial render
   updateRangeBar();
 }
 
 function renderSummary() {
-  const isTimelineFiltered = timelineStartTurn !== 1 || timelineEndTurn !== report.meta.numTicksSimulated;
+  const isTimelineFiltered = timelineStartTurn !== timelineMinTurn || timelineEndTurn !== report.meta.numTicksSimulated;
   const samples = filterSamplesByTimeline(report.samples);
 
   const nums = (xs: number[]) => xs.filter((n) => Number.isFinite(n));
@@ -492,6 +876,18 @@ function renderSummary() {
   root.appendChild(addKpi("Avg tick execution", fmtMs(s.tickExecutionMs.avg) + " ms", "p50 " + fmtMs(s.tickExecutionMs.p50) + " | p95 " + fmtMs(s.tickExecutionMs.p95) + " | p99 " + fmtMs(s.tickExecutionMs.p99)));
   root.appendChild(addKpi("Max tick execution", fmtMs(s.tickExecutionMs.max) + " ms", ""));
   root.appendChild(addKpi("Total intents", fmtInt(s.intents.total), "avg/tick " + fmtMs(s.intents.avgPerTurn)));
+  const gcMs = samples.reduce((sum, d) => sum + d.gcMs, 0);
+  const majorGcTicks = samples.filter((d) => d.majorGc).length;
+  const gcKinds = Object.entries(report.summary.gc.byKind)
+    .sort((a, b) => b[1].totalMs - a[1].totalMs)
+    .map(([kind, k]) => kind + " " + fmtInt(k.count))
+    .join(" | ");
+  root.appendChild(addKpi("GC time in ticks", fmtMs(gcMs) + " ms", isTimelineFiltered ? "range only" : "all GC " + fmtMs(report.summary.gc.totalMs) + " ms | " + gcKinds));
+  root.appendChild(addKpi("Ticks overlapping major GC", fmtInt(majorGcTicks), samples.length ? ((majorGcTicks / samples.length) * 100).toFixed(2) + "% of ticks" : ""));
+  if (report.benchmark) {
+    const p95 = report.benchmark.stats.p95;
+    root.appendChild(addKpi("Benchmark p95 (" + report.benchmark.runs + " runs)", fmtMs(p95.mean) + " ms", "95% CI " + fmtMs(p95.low) + " – " + fmtMs(p95.high) + " | sd " + fmtMs(p95.stddev)));
+  }
   root.appendChild(addKpi("Hash checks", fmtInt(s.hashChecks.compared) + " compared", fmtInt(s.hashChecks.mismatches) + " mismatches"));
   root.appendChild(addKpi("Warnings", fmtInt(s.warnings.total), "missing client " + fmtInt(s.warnings.missingClientId.total) + " | missing target " + fmtInt(s.warnings.missingTargetId.total)));
 
@@ -509,7 +905,9 @@ function escapeHtml(s: string) {
   return String(s)
     .replaceAll("&", "&amp;")
     .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;");
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
 }
 
 function renderDiagnostics() {
@@ -573,7 +971,165 @@ function renderDiagnostics() {
   root.innerHTML = parts.join("");
 }
 
-function renderLineChart(targetId: string, series: Array<{ x: number; y: number }>, opts: { color: string; tooltipHtml: (d: { x: number; y: number }) => string }) {
+function fmtDelta(n: number | string | null) {
+  if (n === null) return "<span class='muted'>n/a</span>";
+  const v = Number(n);
+  if (v === 0) return "<span class='muted'>0</span>";
+  return "<span class='" + (v > 0 ? "delta-pos" : "delta-neg") + "'>" + (v > 0 ? "+" : "") + escapeHtml(String(n)) + "</span>";
+}
+
+function fmtCountDeltas(deltas: Record<string, number>) {
+  const entries = Object.entries(deltas).sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]));
+  if (entries.length === 0) return "<span class='muted'>—</span>";
+  return entries.map(([k, v]) => escapeHtml(k) + " " + fmtDelta(v)).join(", ");
+}
+
+function renderDesync() {
+  const root = document.getElementById("desync");
+  const d = report.desync;
+  if (!root || !d) return;
+
+  const prev = d.previousCheckpoint;
+  const fail = d.failingCheckpoint;
+  const prevBySmallID = new Map((prev?.players ?? []).map((p) => [p.smallID, p]));
+  const failBySmallID = new Map(fail.players.map((p) => [p.smallID, p]));
+
+  const parts: string[] = [];
+  parts.push(
+    "<div class='muted' style='font-size: 12px; margin: 0 0 10px;'>" +
+    "First mismatch at tick <span class='mono'>" + fmtInt(d.firstMismatchTick) + "</span>" +
+    " (expected <span class='mono'>" + d.expectedHash + "</span>, got <span class='mono'>" + d.actualHash + "</span>)." +
+    " Previous checkpoint: <span class='mono'>" + (prev ? fmtInt(prev.tick) : "none") + "</span>." +
+    " Re-simulation " + (d.reproduced ? "reproduced the same hash" : "<strong style='color: #fbbf24;'>did not reproduce the hash</strong>") +
+    " in <span class='mono'>" + fmtInt(d.resimulatedMs) + " ms</span>." +
+    " Players are ordered by hash contribution change, then tile change." +
+    "</div>",
+  );
+
+  const rows = d.playerDiffs
+    .filter((p) => p.tilesDelta !== 0 || p.troopsDelta !== 0 || p.goldDelta !== "0" || (p.hashDelta ?? 0) !== 0 ||
+      Object.keys(p.unitsDelta).length > 0 || Object.keys(p.executionsDelta).length > 0)
+    .map((p) => {
+      const before = prevBySmallID.get(p.smallID);
+      const after = failBySmallID.get(p.smallID);
+      return "<tr>" +
+        "<td><div><strong>" + escapeHtml(p.displayName) + "</strong></div><div class='mono muted'>" + escapeHtml(p.clientID ?? "null") + " #" + p.smallID + "</div></td>" +
+        "<td class='mono'>" + (before?.tiles ?? "—") + " → " + (after?.tiles ?? "—") + " " + fmtDelta(p.tilesDelta) + "</td>" +
+        "<td class='mono'>" + (before?.troops ?? "—") + " → " + (after?.troops ?? "—") + " " + fmtDelta(p.troopsDelta) + "</td>" +
+        "<td class='mono'>" + (before?.gold ?? "—") + " → " + (after?.gold ?? "—") + " " + fmtDelta(p.goldDelta) + "</td>" +
+        "<td class='mono'>" + fmtDelta(p.hashDelta) + "</td>" +
+        "<td class='mono'>" + fmtCountDeltas(p.unitsDelta) + "</td>" +
+        "<td class='mono'>" + fmtCountDeltas(p.executionsDelta) + "</td>" +
+        "</tr>";
+    })
+    .join("");
+  parts.push(
+    "<div style='overflow:auto;'><table><thead><tr>" +
+    "<th>Player</th><th>Tiles</th><th>Troops</th><th>Gold</th><th>Hash Δ</th><th>Units Δ</th><th>Executions Δ</th>" +
+    "</tr></thead><tbody>" + (rows || "<tr><td colspan='7' class='muted'>no player state changed between checkpoints</td></tr>") + "</tbody></table></div>",
+  );
+
+  const execRows = Object.entries(fail.executions)
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, count]) =>
+      "<tr><td class='mono'>" + escapeHtml(name) + "</td><td class='mono'>" + (prev?.executions[name] ?? 0) + "</td><td class='mono'>" + count + "</td></tr>")
+    .join("");
+  if (execRows) {
+    parts.push(
+      "<div style='margin-top: 10px;'><strong>Active executions</strong></div>" +
+      "<table style='margin-top: 6px;'><thead><tr><th>Execution</th><th>Tick " + (prev ? fmtInt(prev.tick) : "—") + "</th><th>Tick " + fmtInt(fail.tick) + "</th></tr></thead><tbody>" + execRows + "</tbody></table>",
+    );
+  }
+
+  root.innerHTML = parts.join("");
+}
+
+function renderAssertions() {
+  const root = document.getElementById("assertions");
+  if (!root || report.assertions.length === 0) return;
+  const tr = report.assertions.map((a) =>
+    "<tr>" +
+    "<td>" + (a.passed ? "<span class='delta-pos'>PASS</span>" : "<strong class='delta-neg'>FAIL</strong>") + "</td>" +
+    "<td>" + escapeHtml(a.name) + "</td>" +
+    "<td class='mono'>" + escapeHtml(a.message) + "</td>" +
+    "</tr>").join("");
+  root.innerHTML = "<table><thead><tr><th>Result</th><th>Assertion</th><th>Detail</th></tr></thead><tbody>" + tr + "</tbody></table>";
+}
+
+function renderDeterminism() {
+  const root = document.getElementById("determinism");
+  const d = report.determinism;
+  if (!root || !d) return;
+
+  const ran = "<span class='mono'>" + fmtInt(d.ticksCompared) + "</span> ticks in lockstep (<span class='mono'>" + fmtInt(d.hashesCompared) + "</span> hashes compared, <span class='mono'>" + fmtInt(d.elapsedMs) + " ms</span>)";
+  if (d.firstDivergentTurn === null) {
+    root.innerHTML = "<div class='muted' style='font-size: 12px;'>Both runners stayed identical for " + ran + ".</div>";
+    return;
+  }
+
+  const hash = d.hashDivergence
+    ? " Hash at tick <span class='mono'>" + fmtInt(d.hashDivergence.tick) + "</span>: <span class='mono'>" + d.hashDivergence.a + "</span> vs <span class='mono'>" + d.hashDivergence.b + "</span>."
+    : "";
+  const cell = (a: string | number | undefined, b: string | number | undefined) =>
+    a === b ? "<span class='muted'>" + (a ?? "—") + "</span>" : "<strong style='color: #fb7185;'>" + (a ?? "—") + " vs " + (b ?? "—") + "</strong>";
+  const rows = d.players.map((p) =>
+    "<tr>" +
+    "<td><div><strong>" + escapeHtml(p.displayName) + "</strong></div><div class='mono muted'>" + escapeHtml(p.clientID ?? "null") + " #" + p.smallID + "</div></td>" +
+    "<td class='mono'>" + cell(p.a?.tiles, p.b?.tiles) + "</td>" +
+    "<td class='mono'>" + cell(p.a?.troops, p.b?.troops) + "</td>" +
+    "<td class='mono'>" + cell(p.a?.gold, p.b?.gold) + "</td>" +
+    "</tr>").join("");
+
+  root.innerHTML =
+    "<div class='muted' style='font-size: 12px; margin: 0 0 10px;'><strong style='color: #fb7185;'>Runners diverged at turn " + fmtInt(d.firstDivergentTurn) + "</strong> after " + ran + "." + hash + "</div>" +
+    "<div style='overflow:auto;'><table><thead><tr><th>Player</th><th>Tiles (A vs B)</th><th>Troops (A vs B)</th><th>Gold (A vs B)</th></tr></thead><tbody>" +
+    (rows || "<tr><td colspan='4' class='muted'>only the hash differs</td></tr>") + "</tbody></table></div>";
+}
+
+function renderSlowTicks() {
+  const root = document.getElementById("slow-ticks");
+  if (!root) return;
+  const st = report.summary.slowTicks;
+  const info = document.getElementById("slow-ticks-info");
+  if (info) {
+    info.textContent = fmtInt(st.total) + " ticks above " + st.threshold +
+      (st.thresholdMs !== null ? " (" + fmtMs(st.thresholdMs) + " ms)" : "") +
+      (st.total > st.ticks.length ? ", showing the " + st.ticks.length + " slowest" : "") +
+      ". Click a row to zoom the timeline to that turn.";
+  }
+  if (st.ticks.length === 0) {
+    root.innerHTML = "<div class='muted'>no slow ticks</div>";
+    return;
+  }
+
+  const list = (items: string[], limit: number) =>
+    items.length === 0 ? "<span class='muted'>-</span>" : items.slice(0, limit).join("<br/>") + (items.length > limit ? "<br/><span class='muted'>+" + (items.length - limit) + " more</span>" : "");
+
+  const tr = st.ticks.map((t, i) => {
+    const intents = t.intents.map((x) => escapeHtml(x.type) + " ×" + x.count + " <span class='muted'>" + escapeHtml(x.displayName ?? x.clientID ?? "server") + "</span>");
+    const conquests = t.conquests.map((c) => escapeHtml(c.conqueror) + " → " + escapeHtml(c.conquered));
+    const units = t.newUnits.map((u) => escapeHtml(u.unitType) + " ×" + u.count + " <span class='muted'>" + escapeHtml(u.owner) + "</span>");
+    return "<tr data-idx='" + i + "' style='cursor:pointer;'>" +
+      "<td class='mono'>" + t.turnNumber + "</td>" +
+      "<td class='mono'>" + fmtMs(t.tickExecutionMs) + "</td>" +
+      "<td class='mono muted'>" + fmtMs(t.thresholdMs) + "</td>" +
+      "<td class='mono'>" + fmtInt(t.players) + "</td>" +
+      "<td>" + list(intents, 6) + "</td>" +
+      "<td>" + list(conquests, 4) + "</td>" +
+      "<td>" + list(units, 4) + "</td></tr>";
+  }).join("");
+  root.innerHTML =
+    "<table><thead><tr><th>Turn</th><th>Tick (ms)</th><th>Threshold</th><th>Players</th><th>Intents</th><th>Conquests</th><th>New units</th></tr></thead><tbody>" + tr + "</tbody></table>";
+
+  root.querySelectorAll("tbody tr").forEach((row) => {
+    row.addEventListener("click", () => {
+      const t = st.ticks[Number((row as HTMLElement).dataset.idx)];
+      setTimelineRange(t.turnNumber - 100, t.turnNumber + 100);
+    });
+  });
+}
+
+function renderLineChart(targetId: string, series: Array<{ x: number; y: number }>, opts: { color: string; tooltipHtml: (d: { x: number; y: number }) => string; markers?: Array<{ x: number; color: string }> }) {
   const target = document.getElementById(targetId)!;
   target.innerHTML = "";
   const w = target.clientWidth;
@@ -596,6 +1152,14 @@ function renderLineChart(targetId: string, series: Array<{ x: number; y: number
   const line = d3.line().x((d) => x(d.x)).y((d) => y(d.y));
   g.append("path").datum(series).attr("fill", "none").attr("stroke", opts.color).attr("stroke-width", 2).attr("d", line);
 
+  // Event markers: a dashed rule with a triangle on top, behind the hover overlay.
+  const [x0, x1] = x.domain();
+  for (const m of (opts.markers ?? []).filter((m) => m.x >= x0 && m.x <= x1)) {
+    g.append("line").attr("x1", x(m.x)).attr("x2", x(m.x)).attr("y1", 0).attr("y2", innerH)
+      .attr("stroke", m.color).attr("stroke-opacity", 0.6).attr("stroke-dasharray", "3,3");
+    g.append("path").attr("d", "M" + (x(m.x) - 4) + ",0L" + (x(m.x) + 4) + ",0L" + x(m.x) + ",6Z").attr("fill", m.color);
+  }
+
   const focus = g.append("g").style("display", "none");
   focus.append("line").attr("y1", 0).attr("y2", innerH).attr("stroke", "rgba(255,255,255,0.18)");
   focus.append("circle").attr("r", 4).attr("fill", opts.color).attr("stroke", "#0b1220").attr("stroke-width", 2);
@@ -714,6 +1278,1264 @@ function renderMultiLineChart(targetId: string, xValues: number[], lines: Array<
     });
 }
 
+function renderStackedAreaChart(targetId: string, xValues: number[], layers: Array<{ id: string; label: string; color: string; ys: number[] }>, opts: { valueFormatter?: (n: number) => string }) {
+  const target = document.getElementById(targetId);
+  if (!target) return;
+  target.innerHTML = "";
+  if (!xValues || xValues.length === 0 || !layers || layers.length === 0) {
+    target.innerHTML = "<div class='muted' style='font-size:12px;'>no data</div>";
+    return;
+  }
+
+  const w = target.clientWidth;
+  const h = target.clientHeight;
+  const margin = { top: 10, right: 14, bottom: 28, left: 54 };
+  const innerW = w - margin.left - margin.right;
+  const innerH = h - margin.top - margin.bottom;
+
+  const svg = d3.select(target).append("svg").attr("width", w).attr("height", h);
+  const g = svg.append("g").attr("transform", "translate(" + margin.left + "," + margin.top + ")");
+
+  const rows = xValues.map((turn, i) => {
+    const row: Record<string, number> = { x: turn };
+    for (const l of layers) row[l.id] = Number.isFinite(l.ys[i]) ? l.ys[i] : 0;
+    return row;
+  });
+  const stacked = d3.stack().keys(layers.map((l) => l.id))(rows);
+
+  const x = d3.scaleLinear().domain(d3.extent(xValues)).range([0, innerW]);
+  const yMax = d3.max(stacked, (layer: Array<[number, number]>) => d3.max(layer, (d: [number, number]) => d[1])) || 0;
+  const y = d3.scaleLinear().domain([0, yMax * 1.05]).range([innerH, 0]).nice();
+
+  g.append("g").attr("class", "gridline").call(d3.axisLeft(y).ticks(5).tickSize(-innerW).tickFormat(""));
+  g.append("g").attr("class", "axis").call(d3.axisLeft(y).ticks(5));
+  g.append("g").attr("class", "axis").attr("transform", "translate(0," + innerH + ")").call(d3.axisBottom(x).ticks(6));
+
+  const area = d3.area()
+    .x((d: any) => x(d.data.x))
+    .y0((d: any) => y(d[0]))
+    .y1((d: any) => y(d[1]));
+  stacked.forEach((layer: any, idx: number) => {
+    g.append("path").datum(layer).attr("fill", layers[idx].color).attr("opacity", 0.85).attr("d", area);
+  });
+
+  const legend = g.append("g").attr("transform", "translate(0,0)");
+  layers.slice(0, 10).forEach((s, idx) => {
+    const y0 = idx * 14;
+    legend.append("rect").attr("x", 0).attr("y", y0 + 1).attr("width", 10).attr("height", 10).attr("fill", s.color);
+    legend.append("text").attr("x", 14).attr("y", y0 + 10).attr("fill", "rgba(229,231,235,0.85)").attr("font-size", 11).text(s.label);
+  });
+
+  const bisect = d3.bisector((d: number) => d).left;
+  const focus = g.append("g").style("display", "none");
+  focus.append("line").attr("y1", 0).attr("y2", innerH).attr("stroke", "rgba(255,255,255,0.18)");
+
+  svg.append("rect")
+    .attr("transform", "translate(" + margin.left + "," + margin.top + ")")
+    .attr("width", innerW).attr("height", innerH).attr("fill", "transparent")
+    .on("mouseenter", () => focus.style("display", null))
+    .on("mouseleave", () => { focus.style("display", "none"); hideTooltip(); })
+    .on("mousemove", (event: MouseEvent) => {
+      const [mx] = d3.pointer(event);
+      const turn = x.invert(mx);
+      const i = Math.max(0, Math.min(xValues.length - 1, bisect(xValues, turn)));
+      const t = xValues[i];
+      focus.select("line").attr("transform", "translate(" + x(t) + ",0)");
+
+      const formatter = opts.valueFormatter || fmtInt;
+      const total = layers.reduce((sum, l) => sum + (Number.isFinite(l.ys[i]) ? l.ys[i] : 0), 0);
+      const tipRows = layers
+        .map((l) => ({ label: l.label, value: Number.isFinite(l.ys[i]) ? l.ys[i] : 0, color: l.color }))
+        .filter((r) => r.value > 0)
+        .sort((a, b) => b.value - a.value)
+        .slice(0, 12)
+        .map((r) => "<div><span style='display:inline-block;width:10px;height:10px;border-radius:2px;background:" + r.color + ";margin-right:6px;'></span>" + escapeHtml(r.label) + " <span class='mono'>" + formatter(r.value) + "</span></div>")
+        .join("");
+      showTooltip(event.clientX, event.clientY, "<div>turn <span class='mono'>" + fmtInt(t) + "</span> | total <span class='mono'>" + formatter(total) + "</span></div><div style='margin-top:6px;'>" + tipRows + "</div>");
+    });
+}
+
+function renderExecutionTiming() {
+  const et = report.executionTiming;
+  if (!et || et.turns.length === 0) return;
+
+  const startIdx = et.turns.findIndex((t) => t >= timelineStartTurn);
+  let endIdx = et.turns.length - 1;
+  while (endIdx >= 0 && et.turns[endIdx] > timelineEndTurn) endIdx--;
+  const turns = startIdx === -1 || startIdx > endIdx ? [] : et.turns.slice(startIdx, endIdx + 1);
+
+  const rows = et.classes.map((className) => {
+    const ms = et.msByClass[className].slice(startIdx, endIdx + 1);
+    const calls = et.callsByClass[className].slice(startIdx, endIdx + 1);
+    return {
+      className,
+      ms,
+      totalMs: ms.reduce((a, b) => a + b, 0),
+      maxMs: ms.length ? Math.max(...ms) : 0,
+      calls: calls.reduce((a, b) => a + b, 0),
+    };
+  }).sort((a, b) => b.totalMs - a.totalMs);
+
+  const colors = d3.schemeTableau10 || ["#60a5fa", "#fbbf24", "#34d399", "#a78bfa", "#fb7185", "#22c55e", "#f97316", "#e879f9", "#38bdf8", "#facc15"];
+  const topLayers = 8;
+  const layers = rows.slice(0, topLayers).map((r, idx) => ({ id: r.className, label: r.className, color: colors[idx % colors.length], ys: r.ms }));
+  if (rows.length > topLayers) {
+    const rest = rows.slice(topLayers);
+    layers.push({
+      id: "__other",
+      label: "other (" + rest.length + ")",
+      color: "rgba(229,231,235,0.35)",
+      ys: turns.map((_, i) => rest.reduce((sum, r) => sum + r.ms[i], 0)),
+    });
+  }
+  renderStackedAreaChart("chart-exec-timing", turns, layers, { valueFormatter: fmtMs });
+
+  const table = document.getElementById("exec-timing-table");
+  if (!table) return;
+  const grandTotal = rows.reduce((sum, r) => sum + r.totalMs, 0);
+  const tr = rows.slice(0, 25).map((r) =>
+    "<tr>" +
+    "<td class='mono'>" + escapeHtml(r.className) + "</td>" +
+    "<td class='mono'>" + fmtMs(r.totalMs) + "</td>" +
+    "<td class='mono'>" + (grandTotal > 0 ? ((r.totalMs / grandTotal) * 100).toFixed(1) : "0.0") + "%</td>" +
+    "<td class='mono'>" + fmtInt(r.calls) + "</td>" +
+    "<td class='mono'>" + (r.calls > 0 ? ((r.totalMs / r.calls) * 1000).toFixed(2) : "—") + "</td>" +
+    "<td class='mono'>" + fmtMs(r.maxMs) + "</td>" +
+    "</tr>").join("");
+  table.innerHTML =
+    "<table><thead><tr><th>Execution</th><th>Total (ms)</th><th>Share</th><th>Calls</th><th>Avg (µs/call)</th><th>Max tick (ms)</th></tr></thead>" +
+    "<tbody>" + (tr || "<tr><td colspan='6' class='muted'>no executions in range</td></tr>") + "</tbody></table>";
+}
+
+function renderInstrumentation() {
+  const inst = report.instrumentation;
+  if (!inst) return;
+
+  const startIdx = inst.turns.findIndex((t) => t >= timelineStartTurn);
+  let endIdx = inst.turns.length - 1;
+  while (endIdx >= 0 && inst.turns[endIdx] > timelineEndTurn) endIdx--;
+  const turns = startIdx === -1 || startIdx > endIdx ? [] : inst.turns.slice(startIdx, endIdx + 1);
+
+  const rows = inst.probes.map((p) => {
+    const ms = turns.length ? p.ms.slice(startIdx, endIdx + 1) : [];
+    const calls = turns.length ? p.calls.slice(startIdx, endIdx + 1) : [];
+    return {
+      probe: p,
+      ms,
+      totalMs: ms.reduce((a, b) => a + b, 0),
+      calls: calls.reduce((a, b) => a + b, 0),
+    };
+  }).sort((a, b) => b.totalMs - a.totalMs);
+
+  const colors = d3.schemeTableau10 || ["#60a5fa", "#fbbf24", "#34d399", "#a78bfa", "#fb7185", "#22c55e", "#f97316", "#e879f9", "#38bdf8", "#facc15"];
+  const layers = rows
+    .filter((r) => r.probe.resolved)
+    .map((r, idx) => ({ id: r.probe.target, label: r.probe.target, color: colors[idx % colors.length], ys: r.ms }));
+  renderStackedAreaChart("chart-instrumentation", turns, layers, { valueFormatter: fmtMs });
+
+  const table = document.getElementById("instrumentation-table");
+  if (!table) return;
+  const tr = rows.map((r) => {
+    const callers = r.probe.callers.slice(0, 5).map((c) =>
+      "<div><span class='mono'>" + escapeHtml(c.caller) + "</span> <span class='muted'>" + fmtInt(c.calls) + "×, " + fmtMs(c.ms) + " ms</span></div>").join("");
+    return "<tr>" +
+      "<td class='mono'>" + escapeHtml(r.probe.target) + (r.probe.resolved ? "" : " <span class='muted'>(not found)</span>") + "</td>" +
+      "<td class='mono'>" + fmtInt(r.calls) + "</td>" +
+      "<td class='mono'>" + fmtMs(r.totalMs) + "</td>" +
+      "<td class='mono'>" + (r.calls > 0 ? ((r.totalMs / r.calls) * 1000).toFixed(2) : "—") + "</td>" +
+      "<td>" + (callers || "<span class='muted'>—</span>") + "</td>" +
+      "</tr>";
+  }).join("");
+  table.innerHTML =
+    "<table><thead><tr><th>Method</th><th>Calls</th><th>Total (ms)</th><th>Avg (µs/call)</th><th>Top callers</th></tr></thead>" +
+    "<tbody>" + (tr || "<tr><td colspan='5' class='muted'>no probes</td></tr>") + "</tbody></table>";
+}
+
+function fmtBytes(n: number) {
+  if (n >= 1024 * 1024) return (n / (1024 * 1024)).toFixed(2) + " MB";
+  if (n >= 1024) return (n / 1024).toFixed(1) + " KB";
+  return fmtInt(n) + " B";
+}
+
+function renderUpdateVolume() {
+  const s = report.samples.filter((d) => d.turnNumber >= timelineStartTurn && d.turnNumber <= timelineEndTurn);
+  const totals = new Map<string, number>();
+  for (const d of s) {
+    for (const [type, n] of Object.entries(d.updatesByType)) totals.set(type, (totals.get(type) ?? 0) + n);
+  }
+  const types = [...totals.entries()].sort((a, b) => b[1] - a[1]).map(([type]) => type);
+
+  const colors = d3.schemeTableau10 || ["#60a5fa", "#fbbf24", "#34d399", "#a78bfa", "#fb7185", "#22c55e", "#f97316", "#e879f9", "#38bdf8", "#facc15"];
+  const topLayers = 8;
+  const layers = types.slice(0, topLayers).map((type, idx) => ({
+    id: type,
+    label: type,
+    color: colors[idx % colors.length],
+    ys: s.map((d) => d.updatesByType[type] ?? 0),
+  }));
+  if (types.length > topLayers) {
+    const rest = types.slice(topLayers);
+    layers.push({
+      id: "__other",
+      label: "other (" + rest.length + ")",
+      color: "rgba(229,231,235,0.35)",
+      ys: s.map((d) => rest.reduce((sum, type) => sum + (d.updatesByType[type] ?? 0), 0)),
+    });
+  }
+  renderStackedAreaChart("chart-updates", s.map((d) => d.turnNumber), layers, { valueFormatter: fmtInt });
+
+  const table = document.getElementById("updates-table");
+  if (!table) return;
+  const tr = [...s]
+    .sort((a, b) => b.updateBytes - a.updateBytes)
+    .slice(0, 25)
+    .map((d) => {
+      const byType = Object.entries(d.updatesByType)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 4)
+        .map(([type, n]) => escapeHtml(type) + " " + fmtInt(n))
+        .join(", ");
+      return "<tr data-turn='" + d.turnNumber + "' style='cursor:pointer;'>" +
+        "<td class='mono'>" + d.turnNumber + "</td>" +
+        "<td class='mono'>" + fmtBytes(d.updateBytes) + "</td>" +
+        "<td class='mono'>" + fmtInt(d.updates) + "</td>" +
+        "<td class='mono'>" + fmtInt(d.tileUpdates) + "</td>" +
+        "<td class='mono'>" + fmtMs(d.tickExecutionMs) + "</td>" +
+        "<td class='mono muted'>" + byType + "</td>" +
+        "</tr>";
+    }).join("");
+  table.innerHTML =
+    "<table><thead><tr><th>Turn</th><th>Payload</th><th>Updates</th><th>Tile updates</th><th>Tick (ms)</th><th>Largest types</th></tr></thead>" +
+    "<tbody>" + (tr || "<tr><td colspan='6' class='muted'>no ticks in range</td></tr>") + "</tbody></table>";
+  table.querySelectorAll("tbody tr[data-turn]").forEach((row) => {
+    row.addEventListener("click", () => {
+      const turn = Number((row as HTMLElement).dataset.turn);
+      setTimelineRange(turn - 100, turn + 100);
+    });
+  });
+}
+
+function renderBenchmark() {
+  const b = report.benchmark;
+  if (!b) return;
+
+  const inRange = b.turns
+    .map((turn, i) => ({ turn, i }))
+    .filter((d) => d.turn >= timelineStartTurn && d.turn <= timelineEndTurn);
+  renderMultiLineChart("chart-benchmark", inRange.map((d) => d.turn), [
+    { id: "median", label: "median", color: "#60a5fa", ys: inRange.map((d) => b.medianMs[d.i]) },
+    { id: "min", label: "min", color: "#34d399", ys: inRange.map((d) => b.minMs[d.i]) },
+  ], { valueFormatter: fmtMs });
+
+  const table = document.getElementById("benchmark-table");
+  if (!table) return;
+  const metrics: Array<{ key: BenchmarkMetric; label: string }> = [
+    { key: "avg", label: "avg tick" },
+    { key: "p50", label: "p50 tick" },
+    { key: "p95", label: "p95 tick" },
+    { key: "p99", label: "p99 tick" },
+    { key: "max", label: "max tick" },
+    { key: "elapsedMs", label: "run wall time" },
+  ];
+  const tr = metrics.map(({ key, label }) => {
+    const st = b.stats[key];
+    const cv = st.mean !== 0 ? (st.stddev / st.mean) * 100 : 0;
+    const values = b.perRun.map((r) => r[key]);
+    return "<tr>" +
+      "<td>" + label + "</td>" +
+      "<td class='mono'>" + fmtMs(st.mean) + "</td>" +
+      "<td class='mono'>" + fmtMs(st.low) + " – " + fmtMs(st.high) + "</td>" +
+      "<td class='mono'>" + fmtMs(st.stddev) + "</td>" +
+      "<td class='mono'>" + cv.toFixed(1) + "%</td>" +
+      "<td class='mono'>" + fmtMs(Math.min(...values)) + " / " + fmtMs(Math.max(...values)) + "</td>" +
+      "</tr>";
+  }).join("");
+  table.innerHTML =
+    "<table><thead><tr><th>Metric (ms)</th><th>Mean</th><th>95% CI</th><th>Std dev</th><th>CV</th><th>Min / max run</th></tr></thead>" +
+    "<tbody>" + tr + "</tbody></table>";
+}
+
+function renderStatsReconciliation() {
+  const r = report.statsReconciliation;
+  const table = document.getElementById("reconciliation-table");
+  if (!table) return;
+  const flaggedOnly = (document.getElementById("reconciliation-flagged-only") as HTMLInputElement | null)?.checked ?? true;
+  const rows = r.rows.filter((row) => !flaggedOnly || row.engineDrift || row.accountingMismatch);
+  const pct = (v: number | null, flagged: boolean) =>
+    v === null ? "—" : "<span style='color:" + (flagged ? "#fb7185" : "inherit") + "'>" + v.toFixed(2) + "%</span>";
+  const tr = rows.slice(0, 500).map((row) =>
+    "<tr>" +
+    "<td>" + escapeHtml(row.displayName) + " <span class='muted mono'>" + escapeHtml(row.clientID) + "</span></td>" +
+    "<td>" + escapeHtml(row.category) + "</td>" +
+    "<td class='mono'>" + (row.recorded ?? "—") + "</td>" +
+    "<td class='mono'>" + row.simulated + "</td>" +
+    "<td class='mono'>" + pct(row.recordedDiffPct, row.engineDrift) + "</td>" +
+    "<td class='mono'>" + (row.analyzer ?? "—") + "</td>" +
+    "<td class='mono'>" + pct(row.analyzerDiffPct, row.accountingMismatch) + "</td>" +
+    "</tr>").join("");
+  table.innerHTML =
+    "<table><thead><tr><th>Player</th><th>Category</th><th>Recorded (K)</th><th>Simulated (K)</th><th>Drift</th><th>Analyzer (K)</th><th>Accounting diff</th></tr></thead>" +
+    "<tbody>" + (tr || "<tr><td colspan='7' class='muted'>" + (flaggedOnly ? "nothing above tolerance" : "no players") + "</td></tr>") + "</tbody></table>";
+}
+
+function renderStatsValidation() {
+  const v = report.statsValidation;
+  const table = document.getElementById("stats-validation-table");
+  if (!table) return;
+  const tr = v.players.map((p) => {
+    const details = p.mismatches.length === 0 ? "<span class='muted'>—</span>" :
+      "<details><summary>" + fmtInt(p.mismatching) + " fields</summary>" +
+      "<table><thead><tr><th>Field</th><th>Recorded</th><th>Simulated</th></tr></thead><tbody>" +
+      p.mismatches.map((m) =>
+        "<tr><td class='mono'>" + escapeHtml(m.path) + "</td>" +
+        "<td class='mono'>" + escapeHtml(m.recorded ?? "—") + "</td>" +
+        "<td class='mono'>" + escapeHtml(m.simulated ?? "—") + "</td></tr>").join("") +
+      "</tbody></table></details>";
+    return "<tr>" +
+      "<td>" + escapeHtml(p.displayName) + " <span class='muted mono'>" + escapeHtml(p.clientID) + "</span>" +
+      (p.missingInRecord ? " <span class='muted'>(no recorded stats)</span>" : "") + "</td>" +
+      "<td class='mono'>" + fmtInt(p.fieldsCompared) + "</td>" +
+      "<td class='mono'>" + fmtInt(p.matching) + "</td>" +
+      "<td class='mono' style='color:" + (p.mismatching > 0 ? "#fb7185" : "inherit") + "'>" + fmtInt(p.mismatching) + "</td>" +
+      "<td>" + details + "</td>" +
+      "</tr>";
+  }).join("");
+  table.innerHTML =
+    "<table><thead><tr><th>Player</th><th>Fields</th><th>Matching</th><th>Mismatching</th><th>Differences</th></tr></thead>" +
+    "<tbody>" + (tr || "<tr><td colspan='5' class='muted'>no players with recorded stats</td></tr>") + "</tbody></table>";
+}
+
+let attackSort: { key: keyof AttackLedgerEntry | "efficiency"; dir: 1 | -1 } = { key: "tilesCaptured", dir: -1 };
+
+function attackEfficiency(a: AttackLedgerEntry) {
+  return a.troopsSent > 0 ? a.tilesCaptured / a.troopsSent : 0;
+}
+
+function renderAttackLedger() {
+  if (!report.attackLedger) return;
+  const inRange = report.attackLedger.attacks.filter((a) => a.startTurn >= timelineStartTurn && a.startTurn <= timelineEndTurn);
+
+  // Cumulative tiles per troop for the attackers that took the most tiles, stepping at each attack's end.
+  const byAttacker = new Map<number, { name: string; tiles: number }>();
+  for (const a of inRange) {
+    const t = byAttacker.get(a.attackerSmallID) ?? { name: a.attackerName, tiles: 0 };
+    t.tiles += a.tilesCaptured;
+    byAttacker.set(a.attackerSmallID, t);
+  }
+  const top = [...byAttacker.entries()].sort((a, b) => b[1].tiles - a[1].tiles).slice(0, 8).map(([id]) => id);
+  const ended = inRange.filter((a) => a.endTurn !== null && top.includes(a.attackerSmallID)).sort((a, b) => a.endTurn! - b.endTurn!);
+  const xs = [...new Set(ended.map((a) => a.endTurn!))];
+  const colors = d3.schemeTableau10 || ["#60a5fa", "#fbbf24", "#34d399", "#a78bfa", "#fb7185", "#22c55e", "#f97316", "#e879f9", "#38bdf8", "#facc15"];
+  const lines = top.map((id, idx) => {
+    let tiles = 0;
+    let troops = 0;
+    let k = 0;
+    const mine = ended.filter((a) => a.attackerSmallID === id);
+    const ys = xs.map((x) => {
+      while (k < mine.length && mine[k].endTurn! <= x) {
+        tiles += mine[k].tilesCaptured;
+        troops += mine[k].troopsSent;
+        k++;
+      }
+      return troops > 0 ? tiles / troops : NaN;
+    });
+    return { id: String(id), label: byAttacker.get(id)!.name, color: colors[idx % colors.length], ys };
+  });
+  renderMultiLineChart("chart-attack-efficiency", xs, lines, { valueFormatter: (n) => n.toFixed(3) });
+
+  const table = document.getElementById("attack-ledger-table");
+  if (!table) return;
+  const q = ((document.getElementById("attack-search") as HTMLInputElement | null)?.value ?? "").trim().toLowerCase();
+  const rows = inRange.filter((a) => !q || a.attackerName.toLowerCase().includes(q) || (a.targetName ?? "terra nullius").toLowerCase().includes(q));
+  const { key, dir } = attackSort;
+  const value = (a: AttackLedgerEntry) => (key === "efficiency" ? attackEfficiency(a) : a[key]);
+  rows.sort((a, b) => {
+    const av = value(a);
+    const bv = value(b);
+    if (av === bv) return 0;
+    if (av === null) return 1;
+    if (bv === null) return -1;
+    return (av < bv ? -1 : 1) * dir;
+  });
+  const columns: Array<{ key: typeof attackSort.key; label: string }> = [
+    { key: "attackerName", label: "Attacker" },
+    { key: "targetName", label: "Target" },
+    { key: "startTurn", label: "Start" },
+    { key: "endTurn", label: "End" },
+    { key: "troopsSent", label: "Troops sent" },
+    { key: "attackerLosses", label: "Attacker lost" },
+    { key: "defenderLosses", label: "Defender lost" },
+    { key: "tilesCaptured", label: "Tiles" },
+    { key: "efficiency", label: "Tiles/troop" },
+  ];
+  const th = columns.map((c) =>
+    "<th data-attack-sort='" + c.key + "' style='cursor:pointer;'>" + c.label + (c.key === key ? (dir === 1 ? " ▲" : " ▼") : "") + "</th>").join("");
+  const tr = rows.slice(0, 500).map((a) =>
+    "<tr>" +
+    "<td>" + escapeHtml(a.attackerName) + "</td>" +
+    "<td>" + (a.targetName === null ? "<span class='muted'>terra nullius</span>" : escapeHtml(a.targetName)) + "</td>" +
+    "<td class='mono'>" + fmtInt(a.startTurn) + (a.intentTurn !== null && a.intentTurn !== a.startTurn ? " <span class='muted'>(intent " + fmtInt(a.intentTurn) + ")</span>" : "") + "</td>" +
+    "<td class='mono'>" + (a.endTurn === null ? "—" : fmtInt(a.endTurn)) + "</td>" +
+    "<td class='mono'>" + fmtInt(a.troopsSent) + "</td>" +
+    "<td class='mono'>" + fmtInt(a.attackerLosses) + "</td>" +
+    "<td class='mono'>" + fmtInt(a.defenderLosses) + "</td>" +
+    "<td class='mono'>" + fmtInt(a.tilesCaptured) + "</td>" +
+    "<td class='mono'>" + attackEfficiency(a).toFixed(4) + "</td>" +
+    "</tr>").join("");
+  table.innerHTML =
+    "<table><thead><tr>" + th + "</tr></thead>" +
+    "<tbody>" + (tr || "<tr><td colspan='9' class='muted'>no attacks in range</td></tr>") + "</tbody></table>" +
+    (rows.length > 500 ? "<div class='muted' style='font-size:12px;'>showing 500 of " + fmtInt(rows.length) + "</div>" : "");
+}
+
+function renderRailNetwork() {
+  const rail = report.railNetwork;
+  if (!rail) return;
+  const startIdx = rail.turns.findIndex((t) => t >= timelineStartTurn);
+  let endIdx = rail.turns.length - 1;
+  while (endIdx >= 0 && rail.turns[endIdx] > timelineEndTurn) endIdx--;
+  const idx = startIdx === -1 || startIdx > endIdx ? [] : d3.range(startIdx, endIdx + 1);
+  if (idx.length > 0) {
+    renderLineChart("chart-active-trains", idx.map((i) => ({ x: rail.turns[i], y: rail.activeTrains[i] })), {
+      color: "#38bdf8",
+      tooltipHtml: (d) => "turn <span class='mono'>" + d.x + "</span><br/>active trains <span class='mono'>" + fmtInt(d.y) + "</span>",
+    });
+    renderLineChart("chart-train-tick-ms", idx.map((i) => ({ x: rail.turns[i], y: rail.trainTickMs[i] })), {
+      color: "#f97316",
+      tooltipHtml: (d) => {
+        const trains = rail.activeTrains[rail.turns.indexOf(d.x)] ?? 0;
+        return "turn <span class='mono'>" + d.x + "</span><br/>TrainExecution.tick <span class='mono'>" + fmtMs(d.y) + " ms</span><br/>active trains <span class='mono'>" + fmtInt(trains) + "</span>";
+      },
+    });
+  }
+
+  // Network as it stood at the end of the range; trips and their revenue within it.
+  type RailPlayer = { name: string; stations: Record<string, number>; railroads: number; railTiles: number; trips: number; tripRevenue: number };
+  const players = new Map<number, RailPlayer>();
+  const player = (id: number, name: string) => {
+    const p = players.get(id) ?? { name, stations: {}, railroads: 0, railTiles: 0, trips: 0, tripRevenue: 0 };
+    players.set(id, p);
+    return p;
+  };
+  for (const st of rail.stations) {
+    if (st.builtTurn > timelineEndTurn || (st.removedTurn !== null && st.removedTurn <= timelineEndTurn)) continue;
+    const p = player(st.ownerSmallID, st.ownerName);
+    p.stations[st.unitType] = (p.stations[st.unitType] ?? 0) + 1;
+  }
+  for (const seg of rail.segments) {
+    if (seg.builtTurn > timelineEndTurn || seg.ownerSmallID === null || !players.has(seg.ownerSmallID)) continue;
+    const p = players.get(seg.ownerSmallID)!;
+    p.railroads++;
+    p.railTiles += seg.tiles;
+  }
+  for (const trip of rail.trips) {
+    if (trip.startTurn < timelineStartTurn || trip.startTurn > timelineEndTurn) continue;
+    const p = player(trip.ownerSmallID, trip.ownerName);
+    p.trips++;
+    p.tripRevenue += trip.revenue;
+  }
+
+  const playerTable = document.getElementById("rail-player-table");
+  if (playerTable) {
+    const tr = [...players.entries()].sort((a, b) => b[1].tripRevenue - a[1].tripRevenue || b[1].railTiles - a[1].railTiles).map(([id, p]) =>
+      "<tr>" +
+      "<td>" + escapeHtml(p.name) + "</td>" +
+      "<td class='mono'>" + (Object.entries(p.stations).map(([type, n]) => n + " " + escapeHtml(type)).join(", ") || "—") + "</td>" +
+      "<td class='mono'>" + fmtInt(p.railroads) + "</td>" +
+      "<td class='mono'>" + fmtInt(p.railTiles) + "</td>" +
+      "<td class='mono'>" + fmtInt(p.trips) + "</td>" +
+      "<td class='mono'>" + fmtGold(p.tripRevenue) + "</td>" +
+      "<td class='mono'>" + fmtGold(rail.incomeByPlayer[id] ?? 0) + "</td>" +
+      "</tr>").join("");
+    playerTable.innerHTML =
+      "<table><thead><tr><th>Player</th><th>Stations</th><th>Railroads</th><th>Rail tiles</th><th>Trips</th><th>Trip revenue</th><th>Train income (run)</th></tr></thead>" +
+      "<tbody>" + (tr || "<tr><td colspan='7' class='muted'>no rail network in range</td></tr>") + "</tbody></table>";
+  }
+}
+
+function renderRailStations() {
+  const table = document.getElementById("rail-station-table");
+  if (!table || !report.railNetwork) return;
+  const rows = report.railNetwork.stations.slice().sort((a, b) => b.revenue - a.revenue || b.stops - a.stops);
+  const tr = rows.slice(0, 300).map((st) =>
+    "<tr>" +
+    "<td class='mono'>#" + st.unitID + "</td>" +
+    "<td>" + escapeHtml(st.unitType) + "</td>" +
+    "<td>" + escapeHtml(st.ownerName) + "</td>" +
+    "<td class='mono'>" + fmtInt(st.builtTurn) + (st.removedTurn !== null ? " <span class='muted'>(removed " + fmtInt(st.removedTurn) + ")</span>" : "") + "</td>" +
+    "<td class='mono'>" + fmtInt(st.stops) + "</td>" +
+    "<td class='mono'>" + fmtGold(st.revenue) + "</td>" +
+    "</tr>").join("");
+  table.innerHTML =
+    "<table><thead><tr><th>Station</th><th>Type</th><th>Owner</th><th>Built</th><th>Stops</th><th>Revenue</th></tr></thead>" +
+    "<tbody>" + (tr || "<tr><td colspan='6' class='muted'>no stations</td></tr>") + "</tbody></table>" +
+    (rows.length > 300 ? "<div class='muted' style='font-size:12px;'>showing 300 of " + fmtInt(rows.length) + "</div>" : "");
+}
+
+function renderStandings() {
+  const st = report.standings;
+  const winner = document.getElementById("standings-winner");
+  if (winner) {
+    winner.innerHTML =
+      "Recorded winner: <b>" + (st.recordedWinner ? escapeHtml(st.recordedWinner.displayName) : "none in the record") + "</b>; " +
+      "reconstructed: <b>" + (st.reconstructedWinner ? escapeHtml(st.reconstructedWinner.displayName) : "—") + "</b> " +
+      (st.winnerMatches === null ? "" : st.winnerMatches ? "✅" : "❌ mismatch");
+  }
+  const table = document.getElementById("standings-table");
+  if (!table) return;
+  const tr = st.players.slice(0, 300).map((p) =>
+    "<tr>" +
+    "<td class='mono'>" + p.placement + "</td>" +
+    "<td>" + escapeHtml(p.displayName) + (p.team !== null ? " <span class='muted'>(" + escapeHtml(p.team) + ")</span>" : "") + "</td>" +
+    "<td class='muted'>" + escapeHtml(p.type) + "</td>" +
+    "<td class='mono'>" + fmtInt(p.finalTiles) + "</td>" +
+    "<td class='mono'>" + fmtInt(p.maxTiles) + "</td>" +
+    "<td class='mono'>" + (p.peakRank === null ? "—" : "#" + p.peakRank + " <span class='muted'>@ " + fmtInt(p.peakRankTurn!) + "</span>") + "</td>" +
+    "<td class='mono'>" + (p.eliminatedTurn === null ? "<span style='color:#34d399'>alive</span>" : fmtInt(p.eliminatedTurn)) + "</td>" +
+    "<td>" + (p.eliminatedByName !== null ? escapeHtml(p.eliminatedByName) : p.eliminatedTurn !== null ? "<span class='muted'>—</span>" : "") + "</td>" +
+    "</tr>").join("");
+  table.innerHTML =
+    "<table><thead><tr><th>#</th><th>Player</th><th>Type</th><th>Final tiles</th><th>Max tiles</th><th>Peak rank</th><th>Eliminated</th><th>By</th></tr></thead>" +
+    "<tbody>" + (tr || "<tr><td colspan='8' class='muted'>no players</td></tr>") + "</tbody></table>";
+}
+
+function renderKillFeed() {
+  const feed = document.getElementById("kill-feed");
+  if (!feed) return;
+  const kills = report.standings.players
+    .filter((p) => p.eliminatedTurn !== null && p.eliminatedTurn >= timelineStartTurn && p.eliminatedTurn <= timelineEndTurn)
+    .sort((a, b) => a.eliminatedTurn! - b.eliminatedTurn!);
+  feed.innerHTML = kills.map((p) =>
+    "<div style='font-size: 12px; padding: 2px 0;'><span class='mono muted'>" + fmtInt(p.eliminatedTurn!) + "</span> " +
+    (p.eliminatedByName !== null ? escapeHtml(p.eliminatedByName) + " 🗡️ " : "💀 ") + escapeHtml(p.displayName) +
+    " <span class='muted'>(#" + p.placement + ", peak #" + (p.peakRank ?? "—") + ")</span></div>").join("") ||
+    "<div class='muted'>no eliminations in range</div>";
+}
+
+// Rank 1 at the top; a line ends where its player was eliminated.
+function renderBumpChart() {
+  const target = document.getElementById("chart-bump");
+  if (!target) return;
+  target.innerHTML = "";
+  const st = report.standings;
+  const idx = st.turns.map((t, i) => (t >= timelineStartTurn && t <= timelineEndTurn ? i : -1)).filter((i) => i !== -1);
+  const ids = Object.keys(st.ranksBySmallID).map(Number);
+  if (idx.length === 0 || ids.length === 0) return;
+
+  const w = target.clientWidth;
+  const h = target.clientHeight;
+  const margin = { top: 10, right: 110, bottom: 28, left: 34 };
+  const innerW = w - margin.left - margin.right;
+  const innerH = h - margin.top - margin.bottom;
+  const svg = d3.select(target).append("svg").attr("width", w).attr("height", h);
+  const g = svg.append("g").attr("transform", "translate(" + margin.left + "," + margin.top + ")");
+  const maxRank = d3.max(ids.flatMap((id) => idx.map((i) => st.ranksBySmallID[id][i] ?? 0))) || 1;
+  const x = d3.scaleLinear().domain([st.turns[idx[0]], st.turns[idx[idx.length - 1]]]).range([0, innerW]);
+  const y = d3.scaleLinear().domain([1, Math.max(2, maxRank)]).range([0, innerH]);
+  g.append("g").attr("class", "axis").call(d3.axisLeft(y).ticks(Math.min(10, maxRank)).tickFormat((d: number) => "#" + d));
+  g.append("g").attr("class", "axis").attr("transform", "translate(0," + innerH + ")").call(d3.axisBottom(x).ticks(6));
+
+  const names = new Map(st.players.map((p) => [p.smallID, p.displayName]));
+  const colors = d3.schemeTableau10 || ["#60a5fa", "#fbbf24", "#34d399", "#a78bfa", "#fb7185", "#22c55e", "#f97316", "#e879f9", "#38bdf8", "#facc15"];
+  ids.forEach((id, n) => {
+    const points = idx.map((i) => ({ x: st.turns[i], y: st.ranksBySmallID[id][i] })).filter((d) => d.y !== null) as Array<{ x: number; y: number }>;
+    if (points.length === 0) return;
+    const color = colors[n % colors.length];
+    const line = d3.line().x((d) => x(d.x)).y((d) => y(d.y)).curve(d3.curveMonotoneX);
+    g.append("path").datum(points).attr("fill", "none").attr("stroke", color).attr("stroke-width", 2).attr("stroke-opacity", 0.85).attr("d", line)
+      .on("mouseenter", (event: MouseEvent) => showTooltip(event.clientX, event.clientY,
+        escapeHtml(names.get(id) ?? "#" + id) + "<br/>best rank in range <span class='mono'>#" + d3.min(points, (d) => d.y) + "</span>"))
+      .on("mouseleave", hideTooltip);
+    const last = points[points.length - 1];
+    g.append("text").attr("x", x(last.x) + 4).attr("y", y(last.y)).attr("dy", "0.32em").attr("fill", color)
+      .style("font-size", "10px").text((names.get(id) ?? "#" + id).slice(0, 16));
+  });
+}
+
+// Inverse of the analyzer's encoding: base64 of varint (value, run length) pairs.
+function decodeRle(encoded: string, length: number): Uint32Array {
+  const bytes = Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0));
+  const cells = new Uint32Array(length);
+  let pos = 0;
+  let i = 0;
+  const varint = () => {
+    let n = 0;
+    let shift = 0;
+    while (pos < bytes.length) {
+      const b = bytes[pos++];
+      n += (b & 0x7f) * 2 ** shift;
+      if (b < 0x80) break;
+      shift += 7;
+    }
+    return n;
+  };
+  while (pos < bytes.length && i < length) {
+    const value = varint();
+    const end = Math.min(length, i + varint());
+    cells.fill(value, i, end);
+    i = end;
+  }
+  return cells;
+}
+
+// Ocean, lake, plains, highland, mountain.
+const terrainRgb = [[22, 40, 66], [30, 58, 95], [74, 88, 62], [104, 104, 78], [140, 136, 124]];
+
+// Spread hues by the golden angle so a player keeps the same color in every snapshot.
+function territoryRgb(smallID: number): [number, number, number] {
+  const h = (smallID * 137.508) % 360;
+  const s = 0.7;
+  const l = 0.55;
+  const k = (n: number) => (n + h / 30) % 12;
+  const f = (n: number) => l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)];
+}
+
+let territoryTerrain: Uint32Array | null = null;
+let territoryShown: { turn: number; owners: Uint32Array } | null = null;
+let territoryHoverInitialized = false;
+
+// Draws the last snapshot at or before the end of the selected range over the map's terrain.
+function renderTerritory() {
+  const tr = report.territory;
+  const canvas = document.getElementById("territory-canvas") as HTMLCanvasElement | null;
+  if (!tr || !canvas || tr.snapshots.length === 0) return;
+  let snap = tr.snapshots[0];
+  for (const s of tr.snapshots) if (s.turn <= timelineEndTurn) snap = s;
+  if (territoryShown?.turn === snap.turn) return;
+
+  const n = tr.gridWidth * tr.gridHeight;
+  if (tr.terrain && !territoryTerrain) territoryTerrain = decodeRle(tr.terrain, n);
+  const owners = decodeRle(snap.owners, n);
+  territoryShown = { turn: snap.turn, owners };
+  const label = document.getElementById("territory-turn");
+  if (label) label.innerHTML = "Showing turn <span class='mono'>" + fmtInt(snap.turn) + "</span>" + (tr.terrain ? "" : " (terrain unavailable)") + ".";
+
+  canvas.width = tr.gridWidth;
+  canvas.height = tr.gridHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  const image = ctx.createImageData(tr.gridWidth, tr.gridHeight);
+  const colors = tr.palette.map((p) => territoryRgb(p.smallID));
+  const cellsByOwner = new Array(tr.palette.length + 1).fill(0);
+  let land = 0;
+  for (let i = 0; i < n; i++) {
+    const t = territoryTerrain ? territoryTerrain[i] : 2;
+    if (t >= 2) land++;
+    const base = terrainRgb[t] ?? terrainRgb[0];
+    const owner = owners[i];
+    cellsByOwner[owner]++;
+    let rgb = base;
+    if (owner !== 0) {
+      const x = i % tr.gridWidth;
+      // Borders are drawn solid, the inside is blended with the terrain.
+      const border =
+        (x + 1 < tr.gridWidth && owners[i + 1] !== owner) || (x > 0 && owners[i - 1] !== owner) ||
+        (i + tr.gridWidth < n && owners[i + tr.gridWidth] !== owner) || (i >= tr.gridWidth && owners[i - tr.gridWidth] !== owner);
+      const c = colors[owner - 1];
+      rgb = border ? c : [0, 1, 2].map((k) => Math.round(c[k] * 0.7 + base[k] * 0.3));
+    }
+    image.data[i * 4] = rgb[0];
+    image.data[i * 4 + 1] = rgb[1];
+    image.data[i * 4 + 2] = rgb[2];
+    image.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+
+  const legend = document.getElementById("territory-legend");
+  if (legend) {
+    const top = tr.palette
+      .map((p, i) => ({ p, cells: cellsByOwner[i + 1], rgb: colors[i] }))
+      .filter((d) => d.cells > 0)
+      .sort((a, b) => b.cells - a.cells)
+      .slice(0, 25);
+    legend.innerHTML = top.map((d) =>
+      "<div style='padding: 2px 0;'><span style='color:rgb(" + d.rgb.join(",") + ")'>■</span> " + escapeHtml(d.p.displayName) +
+      " <span class='muted mono'>" + (land > 0 ? ((100 * d.cells) / land).toFixed(1) + "%" : fmtInt(d.cells)) + "</span></div>").join("") ||
+      "<div class='muted'>no owned tiles</div>";
+  }
+
+  if (territoryHoverInitialized) return;
+  territoryHoverInitialized = true;
+  canvas.addEventListener("mousemove", (event) => {
+    if (!territoryShown) return;
+    const rect = canvas.getBoundingClientRect();
+    const gx = Math.floor(((event.clientX - rect.left) / rect.width) * tr.gridWidth);
+    const gy = Math.floor(((event.clientY - rect.top) / rect.height) * tr.gridHeight);
+    if (gx < 0 || gy < 0 || gx >= tr.gridWidth || gy >= tr.gridHeight) return hideTooltip();
+    const owner = territoryShown.owners[gy * tr.gridWidth + gx];
+    showTooltip(event.clientX, event.clientY,
+      (owner === 0 ? "<span class='muted'>unowned</span>" : escapeHtml(tr.palette[owner - 1].displayName)) +
+      "<br/>tile <span class='mono'>(" + gx * tr.stride + ", " + gy * tr.stride + ")</span>");
+  });
+  canvas.addEventListener("mouseleave", hideTooltip);
+}
+
+function nukeColor(nukeType: string) {
+  if (nukeType === "Hydrogen Bomb") return "#f97316";
+  if (nukeType.startsWith("MIRV")) return "#e879f9";
+  return "#facc15";
+}
+
+function renderNukes() {
+  const table = document.getElementById("nuke-table");
+  if (!table || !report.nukes) return;
+  const inRange = report.nukes.nukes.filter((n) => n.launchTurn >= timelineStartTurn && n.launchTurn <= timelineEndTurn);
+  const tickMsByTurn = new Map(report.samples.map((x) => [x.turnNumber, x.tickExecutionMs]));
+
+  const summary = document.getElementById("nuke-summary");
+  if (summary) {
+    const count = (o: NukeEntry["outcome"]) => inRange.filter((n) => n.outcome === o).length;
+    const median = (values: number[]) => {
+      const sorted = values.slice().sort((a, b) => a - b);
+      return sorted.length === 0 ? NaN : sorted[Math.floor(sorted.length / 2)];
+    };
+    const detonationTurns = new Set(inRange.filter((n) => n.outcome === "detonated").map((n) => n.endTurn!));
+    const onDetonation = [...detonationTurns].map((t) => tickMsByTurn.get(t)).filter((v): v is number => v !== undefined);
+    const all = filterSamplesByTimeline(report.samples).map((x) => x.tickExecutionMs);
+    summary.innerHTML =
+      fmtInt(inRange.length) + " launched, " + fmtInt(count("detonated")) + " detonated, " + fmtInt(count("intercepted")) + " intercepted, " +
+      fmtInt(count("inFlight")) + " in flight. Median tick on detonation turns <span class='mono'>" + fmtMs(median(onDetonation)) +
+      " ms</span> vs <span class='mono'>" + fmtMs(median(all)) + " ms</span> overall.";
+  }
+
+  const rows = inRange.slice().sort((a, b) => a.launchTurn - b.launchTurn || a.ownerName.localeCompare(b.ownerName));
+  const outcome = (n: NukeEntry) => {
+    if (n.outcome === "intercepted") {
+      return "🛡️ intercepted by " + escapeHtml(n.interceptorName ?? "?") + (n.samUnitID !== null ? " <span class='muted mono'>(SAM #" + n.samUnitID + ")</span>" : "");
+    }
+    return { detonated: "💥 detonated", split: "🎆 split", lost: "lost", inFlight: "in flight" }[n.outcome];
+  };
+  const victims = (n: NukeEntry) => n.victims.slice(0, 4).map((v) => {
+    const units = Object.entries(v.unitsLost).map(([type, c]) => c + " " + escapeHtml(type)).join(", ");
+    return escapeHtml(v.displayName) + " <span class='muted mono'>" + fmtInt(v.tiles) + "t " + fmtInt(v.troops) + " troops" +
+      (units ? ", " + units + " (" + fmtGold(v.goldLost) + "K)" : "") + "</span>";
+  }).join("<br/>") + (n.victims.length > 4 ? "<br/><span class='muted'>+" + (n.victims.length - 4) + " more</span>" : "");
+  const tr = rows.slice(0, 500).map((n) =>
+    "<tr>" +
+    "<td class='mono'>" + fmtInt(n.launchTurn) + "</td>" +
+    "<td><span style='color:" + nukeColor(n.nukeType) + "'>●</span> " + escapeHtml(n.nukeType) + "</td>" +
+    "<td>" + escapeHtml(n.ownerName) + (n.siloUnitID !== null ? " <span class='muted mono'>(silo #" + n.siloUnitID + ")</span>" : "") + "</td>" +
+    "<td>" + (n.targetName === null ? "<span class='muted'>—</span>" : escapeHtml(n.targetName)) +
+      (n.targetX !== null ? " <span class='muted mono'>(" + n.targetX + ", " + n.targetY + ")</span>" : "") + "</td>" +
+    "<td>" + outcome(n) + "</td>" +
+    "<td class='mono'>" + (n.endTurn === null ? "—" : fmtInt(n.endTurn)) + "</td>" +
+    "<td class='mono'>" + (n.outcome === "detonated" ? fmtMs(tickMsByTurn.get(n.endTurn!) ?? NaN) : "—") + "</td>" +
+    "<td class='mono'>" + fmtInt(n.tilesDestroyed) + "</td>" +
+    "<td class='mono'>" + fmtInt(n.troopsKilled) + "</td>" +
+    "<td>" + (victims(n) || "<span class='muted'>—</span>") + "</td>" +
+    "</tr>").join("");
+  table.innerHTML =
+    "<table><thead><tr><th>Launch</th><th>Type</th><th>Owner</th><th>Target</th><th>Outcome</th><th>End</th><th>Tick ms</th><th>Tiles</th><th>Troops</th><th>Victims</th></tr></thead>" +
+    "<tbody>" + (tr || "<tr><td colspan='10' class='muted'>no nukes launched in range</td></tr>") + "</tbody></table>" +
+    (rows.length > 500 ? "<div class='muted' style='font-size:12px;'>showing 500 of " + fmtInt(rows.length) + "</div>" : "");
+}
+
+const fmtGameTime = (sec: number) => Math.floor(sec / 60) + ":" + String(Math.floor(sec % 60)).padStart(2, "0");
+
+function renderBuildOrder() {
+  const list = document.getElementById("build-order-list");
+  if (!list) return;
+  const q = ((document.getElementById("build-order-search") as HTMLInputElement | null)?.value ?? "").trim().toLowerCase();
+  const players = report.buildOrder.players.filter((p) => !q || p.displayName.toLowerCase().includes(q));
+  const unitTypes = [...new Set(report.buildOrder.players.flatMap((p) => p.entries.map((e) => e.unitType)))].sort();
+  const colors = d3.schemeTableau10 || ["#60a5fa", "#fbbf24", "#34d399", "#a78bfa", "#fb7185", "#22c55e", "#f97316", "#e879f9", "#38bdf8", "#facc15"];
+  const color = (unitType: string) => colors[unitTypes.indexOf(unitType) % colors.length];
+  const lastTurn = report.meta.numTicksSimulated || 1;
+
+  // A strip across the whole run, one tick per intent; hollow ticks never got built.
+  const strip = (entries: BuildOrderEntry[]) =>
+    "<svg width='100%' height='14' viewBox='0 0 1000 14' preserveAspectRatio='none' style='display:block; margin: 4px 0;'>" +
+    entries.map((e) => {
+      const x = ((e.turn - timelineMinTurn) / Math.max(1, lastTurn - timelineMinTurn)) * 1000;
+      return "<rect x='" + x.toFixed(1) + "' y='1' width='3' height='12' fill='" + (e.built ? color(e.unitType) : "none") +
+        "' stroke='" + color(e.unitType) + "'><title>" + escapeHtml(e.unitType) + " @ " + e.turn + "</title></rect>";
+    }).join("") +
+    "</svg>";
+
+  list.innerHTML = players.slice(0, 100).map((p) => {
+    const missed = p.entries.filter((e) => !e.built).length;
+    const rows = p.entries.map((e) =>
+      "<tr" + (e.built ? "" : " style='opacity:0.55;'") + ">" +
+      "<td class='mono'>" + fmtInt(e.turn) + "</td>" +
+      "<td class='mono'>" + fmtGameTime(e.gameTimeSec) + "</td>" +
+      "<td>" + (e.kind === "upgrade" ? "⬆️ " : "") + "<span style='color:" + color(e.unitType) + "'>●</span> " + escapeHtml(e.unitType) + "</td>" +
+      "<td class='mono'>" + fmtGold(e.gold) + "</td>" +
+      "<td>" + (e.built ? "✅ <span class='muted mono'>" + fmtInt(e.builtTurn!) + "</span>" : "❌") + "</td>" +
+      "</tr>").join("");
+    return "<details><summary>" + escapeHtml(p.displayName) + " <span class='muted'>— " + fmtInt(p.entries.length) + " intents" +
+      (missed > 0 ? ", " + fmtInt(missed) + " not built" : "") + "</span></summary>" +
+      strip(p.entries) +
+      "<table><thead><tr><th>Turn</th><th>Game time</th><th>Unit</th><th>Gold</th><th>Built</th></tr></thead><tbody>" + rows + "</tbody></table>" +
+      "</details>";
+  }).join("") || "<div class='muted'>no build intents</div>";
+}
+
+let tradeControlsInitialized = false;
+const tradePlayerNames = new Map<number, string>();
+function renderTradeRoutes() {
+  const select = document.getElementById("trade-player") as HTMLSelectElement | null;
+  if (!select || !report.tradeRoutes) return;
+  const ships = report.tradeRoutes.ships;
+  if (!tradeControlsInitialized) {
+    tradeControlsInitialized = true;
+    const byPlayer = new Map<number, { name: string; gold: number }>();
+    const credit = (id: number, name: string, gold: number) => {
+      const t = byPlayer.get(id) ?? { name, gold: 0 };
+      t.gold += gold;
+      byPlayer.set(id, t);
+    };
+    for (const s of ships) {
+      credit(s.srcOwnerSmallID, s.srcOwnerName, s.goldToSource);
+      credit(s.dstOwnerSmallID, s.dstOwnerName, s.goldToDestination);
+    }
+    for (const [id, t] of byPlayer) tradePlayerNames.set(id, t.name);
+    select.innerHTML = [...byPlayer.entries()].sort((a, b) => b[1].gold - a[1].gold)
+      .map(([id, t]) => "<option value='" + id + "'>" + escapeHtml(t.name) + " (" + fmtGold(t.gold) + "K)</option>").join("");
+    select.addEventListener("change", () => renderTradeRoutes());
+  }
+
+  const inRange = ships.filter((s) => s.startTurn >= timelineStartTurn && s.startTurn <= timelineEndTurn);
+  const ended = inRange.filter((s) => s.endTurn !== null);
+  const summary = document.getElementById("trade-summary");
+  if (summary) {
+    const count = (o: TradeShipEntry["outcome"]) => fmtInt(inRange.filter((s) => s.outcome === o).length);
+    const travel = ended.length > 0 ? ended.reduce((sum, s) => sum + (s.endTurn! - s.startTurn), 0) / ended.length : NaN;
+    summary.textContent = " " + fmtInt(inRange.length) + " in range: " + count("arrived") + " arrived, " + count("captured") + " captured, " +
+      count("sunk") + " sunk, " + count("sailing") + " sailing; avg travel " + fmtInt(travel) + " turns.";
+  }
+
+  const me = Number(select.value);
+  const mine = inRange.filter((s) => s.srcOwnerSmallID === me || s.dstOwnerSmallID === me);
+
+  type Partner = { name: string; out: number; in: number; captured: number; earned: number; partnerEarned: number };
+  const partners = new Map<number, Partner>();
+  for (const s of mine) {
+    const outgoing = s.srcOwnerSmallID === me;
+    const id = outgoing ? s.dstOwnerSmallID : s.srcOwnerSmallID;
+    const p = partners.get(id) ?? { name: outgoing ? s.dstOwnerName : s.srcOwnerName, out: 0, in: 0, captured: 0, earned: 0, partnerEarned: 0 };
+    if (outgoing) p.out++;
+    else p.in++;
+    if (s.outcome === "captured") p.captured++;
+    p.earned += outgoing ? s.goldToSource : s.goldToDestination;
+    p.partnerEarned += outgoing ? s.goldToDestination : s.goldToSource;
+    partners.set(id, p);
+  }
+  const partnerRows = [...partners.entries()].sort((a, b) => (b[1].earned + b[1].partnerEarned) - (a[1].earned + a[1].partnerEarned));
+
+  const partnerTable = document.getElementById("trade-partner-table");
+  if (partnerTable) {
+    const tr = partnerRows.map(([, p]) =>
+      "<tr>" +
+      "<td>" + escapeHtml(p.name) + "</td>" +
+      "<td class='mono'>" + fmtInt(p.out) + "</td>" +
+      "<td class='mono'>" + fmtInt(p.in) + "</td>" +
+      "<td class='mono'>" + fmtInt(p.captured) + "</td>" +
+      "<td class='mono'>" + fmtGold(p.earned) + "</td>" +
+      "<td class='mono'>" + fmtGold(p.partnerEarned) + "</td>" +
+      "<td class='mono'>" + fmtDelta(Math.round((p.earned - p.partnerEarned) / 1000)) + "</td>" +
+      "</tr>").join("");
+    partnerTable.innerHTML =
+      "<table><thead><tr><th>Partner</th><th>Ships out</th><th>Ships in</th><th>Captured</th><th>Earned</th><th>Partner earned</th><th>Balance</th></tr></thead>" +
+      "<tbody>" + (tr || "<tr><td colspan='7' class='muted'>no trade in range</td></tr>") + "</tbody></table>";
+  }
+
+  // Ports of the selected player, by the ships that left or reached them while it owned them.
+  type Port = { departures: number; arrivals: number; captured: number; travelTurns: number; ended: number; gold: number };
+  const ports = new Map<number, Port>();
+  const port = (id: number) => {
+    const p = ports.get(id) ?? { departures: 0, arrivals: 0, captured: 0, travelTurns: 0, ended: 0, gold: 0 };
+    ports.set(id, p);
+    return p;
+  };
+  for (const s of mine) {
+    if (s.srcOwnerSmallID === me) {
+      const p = port(s.srcPortID);
+      p.departures++;
+      p.gold += s.goldToSource;
+      if (s.outcome === "captured") p.captured++;
+      if (s.endTurn !== null) {
+        p.ended++;
+        p.travelTurns += s.endTurn - s.startTurn;
+      }
+    }
+    if (s.dstOwnerSmallID === me) {
+      const p = port(s.dstPortID);
+      if (s.outcome === "arrived") p.arrivals++;
+      p.gold += s.goldToDestination;
+    }
+  }
+  const portTable = document.getElementById("trade-port-table");
+  if (portTable) {
+    const tr = [...ports.entries()].sort((a, b) => b[1].gold - a[1].gold).map(([id, p]) =>
+      "<tr>" +
+      "<td class='mono'>#" + id + "</td>" +
+      "<td class='mono'>" + fmtInt(p.departures) + "</td>" +
+      "<td class='mono'>" + fmtInt(p.arrivals) + "</td>" +
+      "<td class='mono'>" + fmtInt(p.captured) + "</td>" +
+      "<td class='mono'>" + (p.ended > 0 ? fmtInt(p.travelTurns / p.ended) : "—") + "</td>" +
+      "<td class='mono'>" + fmtGold(p.gold) + "</td>" +
+      "</tr>").join("");
+    portTable.innerHTML =
+      "<table><thead><tr><th>Port</th><th>Departures</th><th>Arrivals</th><th>Captured on the way</th><th>Avg travel (turns)</th><th>Gold earned (K)</th></tr></thead>" +
+      "<tbody>" + (tr || "<tr><td colspan='6' class='muted'>no ports with trade in range</td></tr>") + "</tbody></table>";
+  }
+
+  renderTradeNetwork(tradePlayerNames.get(me) ?? "", partnerRows.slice(0, 16));
+}
+
+// The selected player in the middle and its partners around it; edge width is the gold both sides earned.
+function renderTradeNetwork(centerName: string, partners: Array<[number, { name: string; earned: number; partnerEarned: number; out: number; in: number }]>) {
+  const target = document.getElementById("chart-trade-network");
+  if (!target) return;
+  target.innerHTML = "";
+  if (partners.length === 0) return;
+  const w = target.clientWidth;
+  const h = target.clientHeight;
+  const cx = w / 2;
+  const cy = h / 2;
+  const r = Math.min(w, h) / 2 - 40;
+  const svg = d3.select(target).append("svg").attr("width", w).attr("height", h).style("font-size", "11px");
+  const maxGold = d3.max(partners, (d) => d[1].earned + d[1].partnerEarned) || 1;
+  const nodes = partners.map(([id, p], i) => {
+    const a = (i / partners.length) * Math.PI * 2 - Math.PI / 2;
+    return { id, p, x: cx + Math.cos(a) * r, y: cy + Math.sin(a) * r };
+  });
+
+  svg.selectAll("line").data(nodes).enter().append("line")
+    .attr("x1", cx).attr("y1", cy)
+    .attr("x2", (d) => d.x).attr("y2", (d) => d.y)
+    .attr("stroke", (d) => (d.p.earned >= d.p.partnerEarned ? "#34d399" : "#fb7185"))
+    .attr("stroke-opacity", 0.7)
+    .attr("stroke-width", (d) => 1 + 9 * ((d.p.earned + d.p.partnerEarned) / maxGold))
+    .on("mouseenter", (event: MouseEvent, d) => showTooltip(event.clientX, event.clientY,
+      escapeHtml(centerName) + " ↔ " + escapeHtml(d.p.name) + "<br/>" +
+      "ships out / in <span class='mono'>" + d.p.out + " / " + d.p.in + "</span><br/>" +
+      "earned <span class='mono'>" + fmtGold(d.p.earned) + "K</span>, partner <span class='mono'>" + fmtGold(d.p.partnerEarned) + "K</span>"))
+    .on("mouseleave", hideTooltip);
+  svg.selectAll("circle.partner").data(nodes).enter().append("circle")
+    .attr("cx", (d) => d.x).attr("cy", (d) => d.y).attr("r", 5).attr("fill", "#60a5fa");
+  svg.selectAll("text.partner").data(nodes).enter().append("text")
+    .attr("x", (d) => d.x).attr("y", (d) => d.y - 9).attr("text-anchor", "middle").attr("fill", "currentColor")
+    .text((d) => d.p.name.slice(0, 16));
+  svg.append("circle").attr("cx", cx).attr("cy", cy).attr("r", 8).attr("fill", "#fbbf24");
+  svg.append("text").attr("x", cx).attr("y", cy - 13).attr("text-anchor", "middle").attr("fill", "currentColor")
+    .style("font-weight", "600").text(centerName.slice(0, 20));
+}
+
+const diplomacyKinds: Record<DiplomacyEventKind, { label: string; color: string }> = {
+  request: { label: "alliance request", color: "#60a5fa" },
+  accept: { label: "alliance accepted", color: "#34d399" },
+  reject: { label: "alliance rejected", color: "#94a3b8" },
+  expire: { label: "alliance expired", color: "#a78bfa" },
+  extend: { label: "alliance extended", color: "#22c55e" },
+  break: { label: "alliance broken", color: "#f97316" },
+  betrayal: { label: "betrayal", color: "#fb7185" },
+  embargoStart: { label: "embargo", color: "#facc15" },
+  embargoStop: { label: "embargo lifted", color: "#fde68a" },
+  target: { label: "target", color: "#e879f9" },
+};
+
+function renderDiplomacy() {
+  const target = document.getElementById("chart-diplomacy");
+  if (!target) return;
+  target.innerHTML = "";
+  const names = new Map(report.diplomacy.players.map((p) => [p.smallID, p.displayName]));
+  const name = (id: number | null) => (id === null ? "?" : names.get(id) ?? "#" + id);
+  const inRange = report.diplomacy.events.filter((e) => e.turn >= timelineStartTurn && e.turn <= timelineEndTurn);
+
+  const counts = new Map<number, number>();
+  for (const e of inRange) {
+    counts.set(e.player, (counts.get(e.player) ?? 0) + 1);
+    if (e.other !== null) counts.set(e.other, (counts.get(e.other) ?? 0) + 1);
+  }
+  const lanes = [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 20).map(([id]) => id);
+  if (lanes.length === 0) {
+    target.innerHTML = "<div class='muted' style='padding: 8px;'>no diplomacy events in range</div>";
+  } else {
+    const laneH = 18;
+    const margin = { top: 6, right: 14, bottom: 28, left: 130 };
+    const w = target.clientWidth;
+    const innerW = w - margin.left - margin.right;
+    const innerH = lanes.length * laneH;
+    const svg = d3.select(target).append("svg").attr("width", w).attr("height", innerH + margin.top + margin.bottom);
+    const g = svg.append("g").attr("transform", "translate(" + margin.left + "," + margin.top + ")");
+    const x = d3.scaleLinear().domain([timelineStartTurn, timelineEndTurn]).range([0, innerW]);
+    const laneY = new Map(lanes.map((id, i) => [id, i * laneH + laneH / 2]));
+
+    g.append("g").attr("class", "axis").attr("transform", "translate(0," + innerH + ")").call(d3.axisBottom(x).ticks(6));
+    lanes.forEach((id) => {
+      const y = laneY.get(id)!;
+      g.append("line").attr("x1", 0).attr("x2", innerW).attr("y1", y).attr("y2", y).attr("stroke", "rgba(255,255,255,0.08)");
+      g.append("text").attr("x", -8).attr("y", y).attr("dy", "0.32em").attr("text-anchor", "end")
+        .attr("fill", "currentColor").style("font-size", "11px").text(name(id).slice(0, 18));
+    });
+
+    // Each event sits on the acting player's lane, with a faint tick on the other player's lane.
+    const marks = inRange.filter((e) => laneY.has(e.player));
+    g.selectAll("line.diplomacy-other").data(marks.filter((e) => e.other !== null && laneY.has(e.other))).enter()
+      .append("line")
+      .attr("x1", (e: DiplomacyEvent) => x(e.turn)).attr("x2", (e: DiplomacyEvent) => x(e.turn))
+      .attr("y1", (e: DiplomacyEvent) => laneY.get(e.other!)! - 4).attr("y2", (e: DiplomacyEvent) => laneY.get(e.other!)! + 4)
+      .attr("stroke", (e: DiplomacyEvent) => diplomacyKinds[e.kind].color).attr("stroke-opacity", 0.5);
+    g.selectAll("circle").data(marks).enter()
+      .append("circle")
+      .attr("cx", (e: DiplomacyEvent) => x(e.turn))
+      .attr("cy", (e: DiplomacyEvent) => laneY.get(e.player)!)
+      .attr("r", (e: DiplomacyEvent) => (e.kind === "betrayal" ? 5 : 3.5))
+      .attr("fill", (e: DiplomacyEvent) => diplomacyKinds[e.kind].color)
+      .on("mouseenter", (event: MouseEvent, e: DiplomacyEvent) => showTooltip(event.clientX, event.clientY,
+        "turn <span class='mono'>" + e.turn + "</span><br/>" +
+        "<strong style='color:" + diplomacyKinds[e.kind].color + "'>" + diplomacyKinds[e.kind].label + "</strong><br/>" +
+        escapeHtml(name(e.player)) + (e.other !== null ? " → " + escapeHtml(name(e.other)) : "") +
+        (e.source === "intent" ? "<br/><span class='muted'>from intent</span>" : "")))
+      .on("mouseleave", hideTooltip);
+
+    const legend = d3.select(target).append("div").attr("class", "muted").style("font-size", "11px");
+    for (const { label, color } of Object.values(diplomacyKinds)) {
+      legend.append("span").style("margin-right", "10px").html("<span style='color:" + color + "'>●</span> " + label);
+    }
+  }
+
+  renderDiplomacyMatrix(lanes, name);
+}
+
+function renderDiplomacyMatrix(players: number[], name: (id: number | null) => string) {
+  const table = document.getElementById("diplomacy-matrix");
+  if (!table) return;
+
+  // Relations directed from the acting player, replayed up to the end of the range.
+  const allied = new Set<string>();
+  const betrayed = new Set<string>();
+  const embargoed = new Set<string>();
+  const targeted = new Set<string>();
+  const pair = (a: number, b: number) => a + ":" + b;
+  for (const e of report.diplomacy.events) {
+    if (e.turn > timelineEndTurn) break;
+    if (e.other === null) continue;
+    const ab = pair(e.player, e.other);
+    const ba = pair(e.other, e.player);
+    switch (e.kind) {
+      case "accept":
+        allied.add(ab);
+        allied.add(ba);
+        break;
+      case "expire":
+      case "break":
+      case "betrayal":
+        allied.delete(ab);
+        allied.delete(ba);
+        if (e.kind === "betrayal") betrayed.add(ab);
+        break;
+      case "embargoStart":
+        embargoed.add(ab);
+        break;
+      case "embargoStop":
+        embargoed.delete(ab);
+        break;
+      case "target":
+        targeted.add(ab);
+        break;
+    }
+  }
+
+  if (players.length === 0) {
+    table.innerHTML = "<div class='muted'>no diplomacy events in range</div>";
+    return;
+  }
+  const cell = (a: number, b: number) => {
+    if (a === b) return "<td class='muted'>·</td>";
+    const k = pair(a, b);
+    const marks = (allied.has(k) ? "🤝" : "") + (betrayed.has(k) ? "⚔️" : "") + (embargoed.has(k) ? "🚫" : "") + (targeted.has(k) ? "🎯" : "");
+    return "<td style='text-align:center;' title='" + escapeHtml(name(a) + " → " + name(b)) + "'>" + marks + "</td>";
+  };
+  table.innerHTML =
+    "<table><thead><tr><th></th>" +
+    players.map((id) => "<th title='" + escapeHtml(name(id)) + "'>" + escapeHtml(name(id).slice(0, 8)) + "</th>").join("") +
+    "</tr></thead><tbody>" +
+    players.map((a) => "<tr><td>" + escapeHtml(name(a)) + "</td>" + players.map((b) => cell(a, b)).join("") + "</tr>").join("") +
+    "</tbody></table>";
+}
+
+function renderTrackerOverhead() {
+  const o = report.trackerOverhead;
+  const table = document.getElementById("tracker-overhead-table");
+  if (!o || !table) return;
+  const metrics: Array<{ key: BenchmarkMetric; label: string }> = [
+    { key: "avg", label: "avg tick" },
+    { key: "p50", label: "p50 tick" },
+    { key: "p95", label: "p95 tick" },
+    { key: "p99", label: "p99 tick" },
+    { key: "max", label: "max tick" },
+    { key: "elapsedMs", label: "run wall time" },
+  ];
+  const tr = metrics.map(({ key, label }) =>
+    "<tr>" +
+    "<td>" + label + "</td>" +
+    "<td class='mono'>" + fmtMs(o.baseline[key]) + "</td>" +
+    "<td class='mono'>" + fmtMs(o.instrumented[key]) + "</td>" +
+    "<td class='mono'>" + fmtDelta(Number(o.overheadPct[key].toFixed(1))) + "%</td>" +
+    "</tr>").join("");
+  table.innerHTML =
+    "<table><thead><tr><th>Metric (ms)</th><th>Baseline</th><th>With trackers</th><th>Overhead</th></tr></thead>" +
+    "<tbody>" + tr + "</tbody></table>";
+}
+
+function renderCompare() {
+  const c = report.compare;
+  if (!c) return;
+
+  const inRange = report.samples
+    .map((d, i) => ({ d, i }))
+    .filter(({ d }) => d.turnNumber >= timelineStartTurn && d.turnNumber <= timelineEndTurn);
+  renderMultiLineChart("chart-compare-tick-ms", inRange.map(({ d }) => d.turnNumber), [
+    { id: "base", label: "base", color: "#60a5fa", ys: inRange.map(({ d }) => d.tickExecutionMs) },
+    { id: "other", label: "compare", color: "#f97316", ys: inRange.map(({ i }) => c.otherTickExecutionMs[i] ?? NaN) },
+  ], { valueFormatter: fmtMs });
+
+  const summary = document.getElementById("compare-summary");
+  if (summary) {
+    const tr = c.percentiles.map((p) =>
+      "<tr><td>" + escapeHtml(p.metric) + "</td>" +
+      "<td class='mono'>" + fmtMs(p.base) + "</td>" +
+      "<td class='mono'>" + fmtMs(p.other) + "</td>" +
+      "<td class='mono'>" + fmtDelta(Number(p.delta.toFixed(3))) + "</td>" +
+      "<td class='mono'>" + (p.deltaPct === null ? "—" : fmtDelta(Number(p.deltaPct.toFixed(1))) + "%") + "</td></tr>").join("");
+    const h = c.hashes;
+    const hashRows = h.samples.map((x) =>
+      "<tr><td class='mono'>" + x.tick + "</td><td class='mono'>" + x.base + "</td><td class='mono'>" + x.other + "</td></tr>").join("");
+    summary.innerHTML =
+      "<div class='muted' style='font-size: 11px; margin: 0 0 6px;'>Full-run values; negative deltas mean the compare engine is faster. Timings come from two separate processes run one after the other.</div>" +
+      "<table><thead><tr><th>Tick (ms)</th><th>Base</th><th>Compare</th><th>Δ</th><th>Δ %</th></tr></thead><tbody>" + tr + "</tbody></table>" +
+      "<div style='margin-top: 10px;'><strong>Hash checkpoints</strong> <span class='mono'>" + fmtInt(h.compared) + "</span> compared, " +
+      "<span class='mono'" + (h.diverging > 0 ? " style='color: #fb7185;'" : "") + ">" + fmtInt(h.diverging) + "</span> diverging" +
+      (h.firstDivergingTick !== null ? " (first at tick <span class='mono'>" + h.firstDivergingTick + "</span>)" : "") +
+      ". Compare engine vs recorded hashes: <span class='mono'>" + fmtInt(h.otherMismatchesVsReplay) + "</span> mismatches.</div>" +
+      (hashRows ? "<table style='margin-top: 6px;'><thead><tr><th>Tick</th><th>Base hash</th><th>Compare hash</th></tr></thead><tbody>" + hashRows + "</tbody></table>" : "");
+  }
+
+  const playersRoot = document.getElementById("compare-players");
+  if (playersRoot) {
+    const fields: Array<{ key: keyof ComparePlayerMetrics; label: string }> = [
+      { key: "tilesOwned", label: "Tiles (end)" },
+      { key: "troops", label: "Troops" },
+      { key: "gold", label: "Gold (end)" },
+      { key: "goldEarnedTotal", label: "Earned" },
+      { key: "goldEarnedTradeTotal", label: "Trade" },
+      { key: "goldEarnedTrainTotal", label: "Rail" },
+      { key: "goldEarnedConquerTotal", label: "Conquer" },
+      { key: "goldSpentTotal", label: "Spent" },
+    ];
+    const diff = (p: { base: ComparePlayerMetrics; other: ComparePlayerMetrics }, key: keyof ComparePlayerMetrics) =>
+      (p.other[key] ?? 0) - (p.base[key] ?? 0);
+    const rows = c.players
+      .filter((p) => fields.some((f) => diff(p, f.key) !== 0))
+      .sort((a, b) => Math.abs(diff(b, "tilesOwned")) - Math.abs(diff(a, "tilesOwned")) || Math.abs(diff(b, "gold")) - Math.abs(diff(a, "gold")));
+    const tr = rows.map((p) =>
+      "<tr><td><div><strong>" + escapeHtml(p.displayName) + "</strong></div><div class='mono muted'>" + escapeHtml(p.clientID) + "</div></td>" +
+      fields.map((f) => "<td class='mono'>" + (p.base[f.key] ?? "—") + " → " + (p.other[f.key] ?? "—") + " " + fmtDelta(Number(diff(p, f.key).toFixed(1))) + "</td>").join("") +
+      "</tr>").join("");
+    playersRoot.innerHTML =
+      "<div class='muted' style='font-size: 11px; margin: 0 0 6px;'>" + fmtInt(rows.length) + " of " + fmtInt(c.players.length) + " players differ at the end of the run (gold in K, base → compare).</div>" +
+      "<table><thead><tr><th>Player</th>" + fields.map((f) => "<th>" + f.label + "</th>").join("") + "</tr></thead><tbody>" +
+      (tr || "<tr><td colspan='" + (fields.length + 1) + "' class='muted'>no differences</td></tr>") + "</tbody></table>";
+  }
+}
+
+function colorForFile(file: string) {
+  let h = 0;
+  for (let i = 0; i < file.length; i++) h = (h * 31 + file.charCodeAt(i)) >>> 0;
+  return "hsl(" + (h % 360) + ", 45%, 42%)";
+}
+
+function renderCpuProfileTable(profile: CpuProfileSummary) {
+  const root = document.getElementById("cpu-profile-table");
+  if (!root) return;
+  const group = (document.getElementById("cpu-profile-group") as HTMLSelectElement | null)?.value ?? "function";
+  const sortKey = ((document.getElementById("cpu-profile-sort") as HTMLSelectElement | null)?.value ?? "selfMs") as "selfMs" | "totalMs";
+  const pct = (ms: number) => (profile.totalMs > 0 ? ((ms / profile.totalMs) * 100).toFixed(1) : "0.0") + "%";
+
+  const rows = group === "file"
+    ? profile.files.map((f) => ({ label: "<span class='mono'>" + escapeHtml(f.file) + "</span>", selfMs: f.selfMs, totalMs: f.totalMs }))
+    : profile.functions.map((f) => ({
+      label: "<div class='mono'>" + escapeHtml(f.functionName) + "</div><div class='mono muted'>" + escapeHtml(f.file) + (f.line > 0 ? ":" + f.line : "") + "</div>",
+      selfMs: f.selfMs,
+      totalMs: f.totalMs,
+    }));
+  const tr = rows
+    .sort((a, b) => b[sortKey] - a[sortKey])
+    .slice(0, 60)
+    .map((r) => "<tr><td>" + r.label + "</td><td class='mono'>" + fmtMs(r.selfMs) + "</td><td class='mono'>" + pct(r.selfMs) + "</td><td class='mono'>" + fmtMs(r.totalMs) + "</td><td class='mono'>" + pct(r.totalMs) + "</td></tr>")
+    .join("");
+  root.innerHTML =
+    "<table><thead><tr><th>" + (group === "file" ? "File" : "Function") + "</th><th>Self (ms)</th><th>Self %</th><th>Total (ms)</th><th>Total %</th></tr></thead><tbody>" + tr + "</tbody></table>";
+}
+
+function renderFlameGraph(profile: CpuProfileSummary) {
+  const target = document.getElementById("cpu-profile-flame");
+  if (!target) return;
+  target.innerHTML = "";
+
+  const rowH = 16;
+  const w = target.clientWidth || 600;
+  const root = d3.hierarchy(profile.flame, (d: FlameNode) => d.c).sum((d: FlameNode) => Math.max(0, d.s));
+  d3.partition().size([1, root.height + 1]).padding(0)(root);
+  const h = (root.height + 1) * rowH;
+
+  const svg = d3.select(target).append("svg").attr("width", w).attr("height", h).style("font-size", "10px");
+  let focus: any = root;
+
+  function draw() {
+    svg.selectAll("*").remove();
+    const x = d3.scaleLinear().domain([focus.x0, focus.x1]).range([0, w]);
+    const visible = root.descendants().filter((d: any) => d.x1 > focus.x0 && d.x0 < focus.x1 && x(Math.min(d.x1, focus.x1)) - x(Math.max(d.x0, focus.x0)) >= 0.5);
+    const cell = svg.selectAll("g").data(visible).enter().append("g")
+      .attr("transform", (d: any) => "translate(" + x(Math.max(d.x0, focus.x0)) + "," + (d.y0 * rowH) + ")")
+      .style("cursor", "pointer")
+      .on("click", (_event: MouseEvent, d: any) => { focus = d === focus ? root : d; draw(); })
+      .on("mousemove", (event: MouseEvent, d: any) => showTooltip(event.clientX, event.clientY,
+        "<strong>" + escapeHtml(d.data.n) + "</strong><br/><span class='mono muted'>" + escapeHtml(d.data.f) + "</span>" +
+        "<br/>total <span class='mono'>" + fmtMs(d.data.v) + " ms</span> (" + (profile.totalMs > 0 ? ((d.data.v / profile.totalMs) * 100).toFixed(2) : "0") + "%)" +
+        "<br/>self <span class='mono'>" + fmtMs(d.data.s) + " ms</span>"))
+      .on("mouseleave", () => hideTooltip());
+    const widthOf = (d: any) => Math.max(0, x(Math.min(d.x1, focus.x1)) - x(Math.max(d.x0, focus.x0)) - 1);
+    cell.append("rect")
+      .attr("width", widthOf)
+      .attr("height", rowH - 1)
+      .attr("fill", (d: any) => d.depth < focus.depth ? "rgba(255,255,255,0.12)" : colorForFile(d.data.f));
+    cell.append("text")
+      .attr("x", 3)
+      .attr("y", rowH - 5)
+      .attr("fill", "#e5e7eb")
+      .text((d: any) => {
+        const chars = Math.floor((widthOf(d) - 6) / 6);
+        return chars < 3 ? "" : d.data.n.length > chars ? d.data.n.slice(0, chars - 1) + "…" : d.data.n;
+      });
+  }
+  draw();
+}
+
+let cpuProfileControlsInitialized = false;
+function renderCpuProfile() {
+  if (report.cpuProfiles.length === 0) return;
+  const select = document.getElementById("cpu-profile-select") as HTMLSelectElement | null;
+  if (!select) return;
+
+  if (!cpuProfileControlsInitialized) {
+    cpuProfileControlsInitialized = true;
+    select.innerHTML = report.cpuProfiles.map((p, i) => "<option value='" + i + "'>" + escapeHtml(p.label) + "</option>").join("");
+    select.addEventListener("change", () => renderCpuProfile());
+    document.getElementById("cpu-profile-group")?.addEventListener("change", () => renderCpuProfile());
+    document.getElementById("cpu-profile-sort")?.addEventListener("change", () => renderCpuProfile());
+  }
+
+  const profile = report.cpuProfiles[Number(select.value) || 0];
+  const info = document.getElementById("cpu-profile-info");
+  if (info) info.textContent = fmtMs(profile.totalMs) + " ms sampled | " + fmtInt(profile.sampleCount) + " samples | " + profile.outPath;
+  renderCpuProfileTable(profile);
+  renderFlameGraph(profile);
+}
+
 function renderBarChart(targetId: string, bars: Array<{ label: string; value: number; tilesEnd: number; tilesMax: number }>, opts: { color: string; tooltipHtml: (d: { label: string; value: number; tilesEnd: number; tilesMax: number }) => string }) {
   const target = document.getElementById(targetId)!;
   target.innerHTML = "";
@@ -765,7 +2587,7 @@ function renderPlayersTable() {
 
   // Update header info to show timeline filtering status
   const headerInfo = document.getElementById("players-header-info")!;
-  const isTimelineFiltered = timelineStartTurn !== 1 || timelineEndTurn !== report.meta.numTicksSimulated;
+  const isTimelineFiltered = timelineStartTurn !== timelineMinTurn || timelineEndTurn !== report.meta.numTicksSimulated;
   const baseText = `Economy totals come from per-tick gold deltas (engine stats + balance changes), sampled every <span class="mono">${report.economy.sampleEveryTurns}</span> turns.`;
   const timelineNote = isTimelineFiltered ? ` <span class="mono" style="color: #fbbf24;">Showing data for turns ${timelineStartTurn}-${timelineEndTurn} only.</span>` : "";
   headerInfo.innerHTML = baseText + timelineNote;
@@ -807,10 +2629,34 @@ function renderPlayersTable() {
 function renderAll() {
   renderSummary();
   renderDiagnostics();
+  renderDesync();
+  renderDeterminism();
   const s = filterSamplesByTimeline(report.samples);
+  const detonations = (report.nukes?.nukes ?? []).filter((n) => n.outcome === "detonated" && n.endTurn !== null);
   renderLineChart("chart-tick-ms", s.map((d) => ({ x: d.turnNumber, y: d.tickExecutionMs })), {
     color: "#60a5fa",
-    tooltipHtml: (d) => "turn <span class='mono'>" + d.x + "</span><br/>tick execution <span class='mono'>" + fmtMs(d.y) + " ms</span>",
+    markers: detonations.map((n) => ({ x: n.endTurn!, color: nukeColor(n.nukeType) })),
+    tooltipHtml: (d) => {
+      const sample = s.find((x) => x.turnNumber === d.x);
+      const gc = sample && sample.gcMs > 0 ? "<br/>gc <span class='mono'>" + fmtMs(sample.gcMs) + " ms</span>" + (sample.majorGc ? " (major)" : "") : "";
+      const nukes = detonations.filter((n) => n.endTurn === d.x)
+        .map((n) => "<br/>☢️ " + escapeHtml(n.nukeType) + " by " + escapeHtml(n.ownerName) + " <span class='mono'>(" + fmtInt(n.tilesDestroyed) + " tiles)</span>").join("");
+      return "turn <span class='mono'>" + d.x + "</span><br/>tick execution <span class='mono'>" + fmtMs(d.y) + " ms</span>" + gc + nukes;
+    },
+  });
+  renderMultiLineChart("chart-heap", s.map((d) => d.turnNumber), [
+    { id: "heapUsed", label: "heap used", color: "#60a5fa", ys: s.map((d) => d.heapUsedMb) },
+    { id: "heapTotal", label: "heap total", color: "#a78bfa", ys: s.map((d) => d.heapTotalMb) },
+    { id: "rss", label: "rss", color: "#f97316", ys: s.map((d) => d.rssMb) },
+  ], { valueFormatter: (n) => n.toFixed(1) + " MB" });
+  renderLineChart("chart-gc-ms", s.map((d) => ({ x: d.turnNumber, y: d.gcMs })), {
+    color: "#fb7185",
+    tooltipHtml: (d) => {
+      const sample = s.find((x) => x.turnNumber === d.x);
+      const tickMs = sample ? "<br/>tick execution <span class='mono'>" + fmtMs(sample.tickExecutionMs) + " ms</span>" : "";
+      const major = sample && sample.majorGc ? "<br/><strong style='color: #fb7185;'>major GC</strong>" : "";
+      return "turn <span class='mono'>" + d.x + "</span><br/>gc <span class='mono'>" + fmtMs(d.y) + " ms</span>" + tickMs + major;
+    },
   });
   renderLineChart("chart-intents", s.map((d) => ({ x: d.turnNumber, y: d.intents })), {
     color: "#fbbf24",
@@ -825,7 +2671,21 @@ function renderAll() {
     },
   });
 
-  const isTimelineFiltered = timelineStartTurn !== 1 || timelineEndTurn !== report.meta.numTicksSimulated;
+  renderUpdateVolume();
+  renderExecutionTiming();
+  renderInstrumentation();
+  renderAttackLedger();
+  renderTradeRoutes();
+  renderRailNetwork();
+  renderDiplomacy();
+  renderNukes();
+  renderKillFeed();
+  renderBumpChart();
+  renderTerritory();
+  renderBenchmark();
+  renderCompare();
+
+  const isTimelineFiltered = timelineStartTurn !== timelineMinTurn || timelineEndTurn !== report.meta.numTicksSimulated;
   const humans = report.players.filter((p) => p.type === "HUMAN");
   const humansForTiles = calculateFilteredPlayerStats().filter((p) => p.type === "HUMAN");
   const barsFull = humans
@@ -1044,9 +2904,27 @@ function initControls() {
     document.getElementById(id)?.addEventListener("change", reRenderTable, { passive: true });
   }
   document.getElementById("player-search")?.addEventListener("input", reRenderTable, { passive: true });
+  document.getElementById("build-order-search")?.addEventListener("input", () => renderBuildOrder(), { passive: true });
+  document.getElementById("attack-search")?.addEventListener("input", () => renderAttackLedger(), { passive: true });
+  document.getElementById("attack-ledger-table")?.addEventListener("click", (event) => {
+    const key = (event.target as HTMLElement).closest("th")?.getAttribute("data-attack-sort") as typeof attackSort.key | null;
+    if (!key) return;
+    attackSort = { key, dir: attackSort.key === key ? (attackSort.dir === 1 ? -1 : 1) : -1 };
+    renderAttackLedger();
+  });
+  document.getElementById("reconciliation-flagged-only")?.addEventListener("change", () => renderStatsReconciliation(), { passive: true });
 }
 
 renderAll();
+renderAssertions();
+renderTrackerOverhead();
+renderStatsReconciliation();
+renderStatsValidation();
+renderRailStations();
+renderBuildOrder();
+renderStandings();
+renderCpuProfile();
+renderSlowTicks();
 initControls();
 initTimelineControls();
-window.addEventListener("resize", () => renderAll(), { passive: true });
+window.addEventListener("resize", () => { renderAll(); renderCpuProfile(); }, { passive: true });
@@ -0,0 +1,134 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { spawn } from "node:child_process";
+import type { CompareReport, ComparePlayerMetrics, PlayerSummary, ReplayPerfReport } from "./types";
+
+function runNode(args: string[], opts: { cwd: string; outputFd?: number }): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const output = opts.outputFd ?? "inherit";
+    const child = spawn(process.execPath, args, { cwd: opts.cwd, stdio: ["ignore", output, output] });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) return resolve();
+      reject(new Error(`child analysis failed (code ${code})`));
+    });
+  });
+}
+
+/**
+ * Analyzes the replay against another OpenFront checkout in a child process, so the two engines
+ * never share a module cache or globals. The child reuses this process's loader flags (tsx).
+ */
+export async function analyzeInChildProcess(opts: {
+  analyzerScript: string;
+  repoRoot: string;
+  replayPath: string;
+  openfrontRoot: string;
+  outPath: string;
+  extraArgs: string[];
+  // Child stdout/stderr go here instead of this process's console.
+  logPath?: string;
+}): Promise<ReplayPerfReport> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "replay-analyzer-"));
+  const jsonOut = path.join(tmpDir, "report.json");
+  const logFile = opts.logPath ? await fs.open(opts.logPath, "w") : null;
+  try {
+    await runNode(
+      [
+        ...process.execArgv,
+        opts.analyzerScript,
+        opts.replayPath,
+        "--openfrontRoot",
+        opts.openfrontRoot,
+        "--noInstall",
+        "--out",
+        opts.outPath,
+        "--jsonOut",
+        jsonOut,
+        ...opts.extraArgs,
+      ],
+      { cwd: opts.repoRoot, outputFd: logFile?.fd },
+    );
+    return JSON.parse(await fs.readFile(jsonOut, "utf8")) as ReplayPerfReport;
+  } finally {
+    await logFile?.close();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  }
+}
+
+function kiloOrNull(value: string | null): number | null {
+  if (value === null) return null;
+  const n = Number.parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function playerMetrics(p: PlayerSummary): ComparePlayerMetrics {
+  return {
+    tilesOwned: p.tilesOwned,
+    tilesOwnedMax: p.tilesOwnedMax,
+    troops: p.troops,
+    gold: kiloOrNull(p.gold) ?? 0,
+    goldEarnedTotal: kiloOrNull(p.goldEarnedTotal),
+    goldEarnedTradeTotal: kiloOrNull(p.goldEarnedTradeTotal),
+    goldEarnedTrainTotal: kiloOrNull(p.goldEarnedTrainTotal),
+    goldEarnedConquerTotal: kiloOrNull(p.goldEarnedConquerTotal),
+    goldSpentTotal: kiloOrNull(p.goldSpentTotal),
+  };
+}
+
+export function buildComparison(
+  base: ReplayPerfReport,
+  other: ReplayPerfReport,
+  labels: { base: string; other: string; otherReportPath: string },
+): CompareReport {
+  const otherMsByTurn = new Map(other.samples.map((s) => [s.turnNumber, s.tickExecutionMs]));
+  const otherTickExecutionMs = base.samples.map((s) => otherMsByTurn.get(s.turnNumber) ?? null);
+
+  const metrics = ["avg", "p50", "p95", "p99", "max"] as const;
+  const percentiles = metrics.map((metric) => {
+    const b = base.summary.tickExecutionMs[metric];
+    const o = other.summary.tickExecutionMs[metric];
+    return { metric, base: b, other: o, delta: o - b, deltaPct: b !== 0 ? ((o - b) / b) * 100 : null };
+  });
+
+  const otherHashes = new Map(other.summary.hashChecks.actual);
+  let compared = 0;
+  let diverging = 0;
+  const samples: CompareReport["hashes"]["samples"] = [];
+  for (const [tick, hash] of base.summary.hashChecks.actual) {
+    const o = otherHashes.get(tick);
+    if (o === undefined) continue;
+    compared++;
+    if (o !== hash) {
+      diverging++;
+      if (samples.length < 20) samples.push({ tick, base: hash, other: o });
+    }
+  }
+
+  const otherPlayersByClientId = new Map(
+    other.players.filter((p) => p.clientID !== null).map((p) => [p.clientID as string, p]),
+  );
+  const players: CompareReport["players"] = [];
+  for (const p of base.players) {
+    if (!p.clientID) continue;
+    const o = otherPlayersByClientId.get(p.clientID);
+    if (!o) continue;
+    players.push({ clientID: p.clientID, displayName: p.displayName, base: playerMetrics(p), other: playerMetrics(o) });
+  }
+
+  return {
+    base: { label: labels.base },
+    other: { label: labels.other, reportPath: labels.otherReportPath },
+    otherTickExecutionMs,
+    percentiles,
+    hashes: {
+      compared,
+      diverging,
+      firstDivergingTick: samples[0]?.tick ?? null,
+      samples,
+      otherMismatchesVsReplay: other.summary.hashChecks.mismatches,
+    },
+    players,
+  };
+}
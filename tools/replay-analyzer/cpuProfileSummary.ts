@@ -0,0 +1,163 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { CpuProfileSummary, FlameNode } from "./types";
+
+type ProfileNode = {
+  id: number;
+  callFrame: { functionName: string; url: string; lineNumber: number; columnNumber: number };
+  children?: number[];
+};
+
+type CpuProfile = {
+  nodes: ProfileNode[];
+  samples?: number[];
+  timeDeltas?: number[];
+};
+
+// Flame graph nodes below this share of total time are folded into their parent's self time.
+const flameMinShare = 0.0005;
+
+function rebaseUrl(url: string, roots: { dir: string; label: string }[]): string {
+  if (!url) return "(native)";
+  if (!url.startsWith("file://")) return url;
+  const abs = fileURLToPath(url);
+  for (const root of roots) {
+    const rel = path.relative(root.dir, abs);
+    if (!rel.startsWith("..") && !path.isAbsolute(rel)) return root.label + rel.split(path.sep).join("/");
+  }
+  return abs;
+}
+
+/**
+ * Aggregates a V8 `.cpuprofile` into self/total time per function and per source file, plus a
+ * pruned call tree for the flame graph. Paths under `roots` are shown relative to them.
+ */
+export function summarizeCpuProfile(
+  profile: CpuProfile,
+  opts: { label: string; outPath: string; roots: { dir: string; label: string }[]; topN: number },
+): CpuProfileSummary {
+  const nodeById = new Map<number, ProfileNode>();
+  for (const n of profile.nodes) nodeById.set(n.id, n);
+
+  // A sample lasts until the next one, so sample i is weighted by timeDeltas[i + 1].
+  const selfUs = new Map<number, number>();
+  const samples = profile.samples ?? [];
+  const deltas = profile.timeDeltas ?? [];
+  for (let i = 0; i < samples.length; i++) {
+    const d = Math.max(0, deltas[i + 1] ?? 0);
+    selfUs.set(samples[i], (selfUs.get(samples[i]) ?? 0) + d);
+  }
+
+  const root = profile.nodes[0];
+  const totalUs = new Map<number, number>();
+  const fileOf = new Map<number, string>();
+  const keyOf = new Map<number, string>();
+  // Iterative post-order; call stacks in real profiles are deep enough to blow the JS stack.
+  const order: ProfileNode[] = [];
+  const stack: ProfileNode[] = [root];
+  while (stack.length > 0) {
+    const n = stack.pop()!;
+    order.push(n);
+    fileOf.set(n.id, rebaseUrl(n.callFrame.url, opts.roots));
+    keyOf.set(n.id, `${n.callFrame.functionName || "(anonymous)"}\u0000${fileOf.get(n.id)}\u0000${n.callFrame.lineNumber}`);
+    for (const c of n.children ?? []) {
+      const child = nodeById.get(c);
+      if (child) stack.push(child);
+    }
+  }
+  for (let i = order.length - 1; i >= 0; i--) {
+    const n = order[i];
+    let t = selfUs.get(n.id) ?? 0;
+    for (const c of n.children ?? []) t += totalUs.get(c) ?? 0;
+    totalUs.set(n.id, t);
+  }
+  const grandTotalUs = totalUs.get(root.id) ?? 0;
+
+  // Total time only counts the outermost frame of a function/file on each stack, so recursion
+  // isn't double counted.
+  const fnSelf = new Map<string, number>();
+  const fnTotal = new Map<string, number>();
+  const fileSelf = new Map<string, number>();
+  const fileTotal = new Map<string, number>();
+  const activeFn = new Map<string, number>();
+  const activeFile = new Map<string, number>();
+  const walk: { node: ProfileNode; exit: boolean }[] = [{ node: root, exit: false }];
+  while (walk.length > 0) {
+    const { node, exit } = walk.pop()!;
+    const key = keyOf.get(node.id)!;
+    const file = fileOf.get(node.id)!;
+    if (exit) {
+      activeFn.set(key, activeFn.get(key)! - 1);
+      activeFile.set(file, activeFile.get(file)! - 1);
+      continue;
+    }
+    const self = selfUs.get(node.id) ?? 0;
+    const total = totalUs.get(node.id) ?? 0;
+    fnSelf.set(key, (fnSelf.get(key) ?? 0) + self);
+    fileSelf.set(file, (fileSelf.get(file) ?? 0) + self);
+    if (!activeFn.get(key)) fnTotal.set(key, (fnTotal.get(key) ?? 0) + total);
+    if (!activeFile.get(file)) fileTotal.set(file, (fileTotal.get(file) ?? 0) + total);
+    activeFn.set(key, (activeFn.get(key) ?? 0) + 1);
+    activeFile.set(file, (activeFile.get(file) ?? 0) + 1);
+
+    walk.push({ node, exit: true });
+    for (const c of node.children ?? []) {
+      const child = nodeById.get(c);
+      if (child) walk.push({ node: child, exit: false });
+    }
+  }
+
+  const ms = (us: number) => Math.round(us) / 1000;
+  const byTime = (a: [string, number], b: [string, number]) => b[1] - a[1] || a[0].localeCompare(b[0]);
+  const topKeys = (self: Map<string, number>, total: Map<string, number>) =>
+    new Set([
+      ...[...self.entries()].sort(byTime).slice(0, opts.topN).map(([k]) => k),
+      ...[...total.entries()].sort(byTime).slice(0, opts.topN).map(([k]) => k),
+    ]);
+
+  const functions = [...topKeys(fnSelf, fnTotal)].map((key) => {
+    const [functionName, file, line] = key.split("\u0000");
+    return {
+      functionName,
+      file,
+      line: Number(line) + 1,
+      selfMs: ms(fnSelf.get(key) ?? 0),
+      totalMs: ms(fnTotal.get(key) ?? 0),
+    };
+  });
+  const files = [...topKeys(fileSelf, fileTotal)].map((file) => ({
+    file,
+    selfMs: ms(fileSelf.get(file) ?? 0),
+    totalMs: ms(fileTotal.get(file) ?? 0),
+  }));
+
+  const minUs = grandTotalUs * flameMinShare;
+  // Children come before their parent in reverse pre-order, so the flame tree is built bottom-up.
+  const flameById = new Map<number, FlameNode>();
+  for (let i = order.length - 1; i >= 0; i--) {
+    const n = order[i];
+    const total = totalUs.get(n.id) ?? 0;
+    if (n !== root && total < minUs) continue;
+    const kept = (n.children ?? [])
+      .map((c) => nodeById.get(c))
+      .filter((c): c is ProfileNode => !!c && (totalUs.get(c.id) ?? 0) >= minUs);
+    const children = kept.map((c) => flameById.get(c.id)!);
+    flameById.set(n.id, {
+      n: n.callFrame.functionName || (n === root ? "(root)" : "(anonymous)"),
+      f: fileOf.get(n.id)!,
+      v: ms(total),
+      s: ms(total - kept.reduce((a, c) => a + (totalUs.get(c.id) ?? 0), 0)),
+      ...(children.length > 0 ? { c: children } : {}),
+    });
+  }
+
+  return {
+    label: opts.label,
+    outPath: opts.outPath,
+    totalMs: ms(grandTotalUs),
+    sampleCount: samples.length,
+    functions,
+    files,
+    flame: flameById.get(root.id)!,
+  };
+}
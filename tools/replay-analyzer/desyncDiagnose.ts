@@ -0,0 +1,196 @@
+import type { OpenFrontRuntime } from "./openfrontLoader";
+import { simulateReplay } from "./simulateReplay";
+import type { DesyncCheckpoint, DesyncPlayerDiff, DesyncPlayerState, DesyncReport } from "./types";
+
+// Executions keep their owner in differently named fields depending on the class.
+const executionOwnerFields = ["player", "_owner", "owner", "attacker", "requestor", "sender", "_player"];
+
+function executionOwnerSmallID(exec: any): number | null {
+  for (const field of executionOwnerFields) {
+    const v = exec?.[field];
+    if (v && typeof v.smallID === "function") return v.smallID();
+  }
+  return null;
+}
+
+function activeExecutions(game: any): any[] {
+  const execs = typeof game.executions === "function" ? game.executions() : (game.execs ?? []);
+  return (execs as any[]).filter((e) => typeof e?.isActive !== "function" || e.isActive());
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const item of items) {
+    const k = key(item);
+    out[k] = (out[k] ?? 0) + 1;
+  }
+  return out;
+}
+
+function captureCheckpoint(
+  openfront: OpenFrontRuntime,
+  game: any,
+  tick: number,
+  expectedHash: number | null,
+  actualHash: number | null,
+): DesyncCheckpoint {
+  const unitTypes = Object.values(openfront.Game.UnitType) as any[];
+  const execs = activeExecutions(game);
+  const execsBySmallID = new Map<number, any[]>();
+  for (const e of execs) {
+    const owner = executionOwnerSmallID(e);
+    if (owner === null) continue;
+    const list = execsBySmallID.get(owner) ?? [];
+    list.push(e);
+    execsBySmallID.set(owner, list);
+  }
+
+  const players: DesyncPlayerState[] = (game.allPlayers?.() ?? []).map((p: any) => {
+    const units: Record<string, number> = {};
+    for (const t of unitTypes) {
+      const count = p.unitsOwned(t);
+      if (count > 0) units[String(t)] = count;
+    }
+    return {
+      smallID: p.smallID(),
+      clientID: p.clientID(),
+      displayName: p.displayName(),
+      isAlive: p.isAlive(),
+      tiles: p.numTilesOwned(),
+      troops: p.troops(),
+      gold: String(p.gold()),
+      hash: typeof p.hash === "function" ? p.hash() : null,
+      units,
+      executions: countBy(execsBySmallID.get(p.smallID()) ?? [], (e) => e?.constructor?.name ?? "unknown"),
+    };
+  });
+
+  return {
+    tick,
+    expectedHash,
+    actualHash,
+    players,
+    executions: countBy(execs, (e) => e?.constructor?.name ?? "unknown"),
+  };
+}
+
+function diffCounts(prev: Record<string, number>, curr: Record<string, number>): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const k of new Set([...Object.keys(prev), ...Object.keys(curr)])) {
+    const d = (curr[k] ?? 0) - (prev[k] ?? 0);
+    if (d !== 0) out[k] = d;
+  }
+  return out;
+}
+
+// Hash contributions aren't ordered, so a player's divergence is how many of its fields changed.
+function changedFields(d: DesyncPlayerDiff): number {
+  return (
+    Number(d.hashDelta !== null && d.hashDelta !== 0) +
+    Number(d.tilesDelta !== 0) +
+    Number(d.troopsDelta !== 0) +
+    Number(d.goldDelta !== "0") +
+    Object.keys(d.unitsDelta).length +
+    Object.keys(d.executionsDelta).length
+  );
+}
+
+function diffPlayers(prev: DesyncCheckpoint | null, curr: DesyncCheckpoint): DesyncPlayerDiff[] {
+  const prevBySmallID = new Map((prev?.players ?? []).map((p) => [p.smallID, p]));
+  return curr.players
+    .map((p): DesyncPlayerDiff => {
+      const before = prevBySmallID.get(p.smallID);
+      return {
+        smallID: p.smallID,
+        clientID: p.clientID,
+        displayName: p.displayName,
+        tilesDelta: p.tiles - (before?.tiles ?? 0),
+        troopsDelta: p.troops - (before?.troops ?? 0),
+        goldDelta: String(BigInt(p.gold) - BigInt(before?.gold ?? "0")),
+        hashDelta: p.hash !== null && before?.hash != null ? p.hash - before.hash : null,
+        unitsDelta: diffCounts(before?.units ?? {}, p.units),
+        executionsDelta: diffCounts(before?.executions ?? {}, p.executions),
+      };
+    })
+    .sort(
+      (a, b) =>
+        changedFields(b) - changedFields(a) ||
+        Math.abs(b.tilesDelta) - Math.abs(a.tilesDelta) ||
+        Math.abs(b.troopsDelta) - Math.abs(a.troopsDelta) ||
+        a.smallID - b.smallID,
+    );
+}
+
+/**
+ * Re-simulates the replay up to the first mismatched hash and dumps per-player state at the
+ * previous hash checkpoint and at the failing one.
+ */
+export async function diagnoseDesync(opts: {
+  openfront: OpenFrontRuntime;
+  gameStartInfo: any;
+  clientID: string;
+  mapsRoot: string;
+  turnsToRun: any[];
+  expectedHashes: ReadonlyMap<number, number>;
+  firstMismatch: { tick: number; expected: number; actual: number };
+  log?: (msg: string) => void;
+}): Promise<DesyncReport> {
+  const log = opts.log ?? (() => {});
+  const failTick = opts.firstMismatch.tick;
+  const prevTick = [...opts.expectedHashes.keys()].filter((t) => t < failTick).reduce((a, b) => Math.max(a, b), -1);
+
+  const lastIdx = opts.turnsToRun.findIndex((t) => t.turnNumber === failTick);
+  if (lastIdx === -1) {
+    throw new Error(`Desync tick ${failTick} is outside the simulated turns`);
+  }
+
+  log(`desync: re-simulating to tick ${failTick} (previous checkpoint ${prevTick >= 0 ? prevTick : "none"})`);
+
+  const captured: { previous: DesyncCheckpoint | null; failing: DesyncCheckpoint | null } = {
+    previous: null,
+    failing: null,
+  };
+  const sim = await simulateReplay({
+    openfront: opts.openfront,
+    gameStartInfo: opts.gameStartInfo,
+    clientID: opts.clientID,
+    mapsRoot: opts.mapsRoot,
+    turnsToRun: opts.turnsToRun.slice(0, lastIdx + 1),
+    expectedHashes: opts.expectedHashes,
+    progressEvery: 0,
+    onAfterTick: ({ game, turn, hashUpdates }) => {
+      const tick = turn.turnNumber;
+      if (tick !== prevTick && tick !== failTick) return;
+      const checkpoint = captureCheckpoint(
+        opts.openfront,
+        game,
+        tick,
+        opts.expectedHashes.get(tick) ?? null,
+        hashUpdates.find((hu) => hu.tick === tick)?.hash ?? null,
+      );
+      if (tick === prevTick) captured.previous = checkpoint;
+      else captured.failing = checkpoint;
+    },
+  });
+
+  const failingCheckpoint = captured.failing;
+  if (!failingCheckpoint) {
+    throw new Error(`Desync re-simulation did not reach tick ${failTick}`);
+  }
+  if (failingCheckpoint.actualHash !== null && failingCheckpoint.actualHash !== opts.firstMismatch.actual) {
+    log(
+      `desync: re-simulation hash ${failingCheckpoint.actualHash} differs from the first run (${opts.firstMismatch.actual}); engine is nondeterministic within this process`,
+    );
+  }
+
+  return {
+    firstMismatchTick: failTick,
+    expectedHash: opts.firstMismatch.expected,
+    actualHash: opts.firstMismatch.actual,
+    reproduced: failingCheckpoint.actualHash === opts.firstMismatch.actual,
+    resimulatedMs: sim.elapsedMs,
+    previousCheckpoint: captured.previous,
+    failingCheckpoint,
+    playerDiffs: diffPlayers(captured.previous, failingCheckpoint),
+  };
+}
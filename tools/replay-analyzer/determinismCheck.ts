@@ -0,0 +1,119 @@
+import { performance } from "node:perf_hooks";
+import { createGameRunnerForReplay } from "./gameRunnerForReplay";
+import type { OpenFrontRuntime } from "./openfrontLoader";
+import type { DeterminismPlayerState, DeterminismReport } from "./types";
+
+type Twin = { runner: any; hashes: { tick: number; hash: number }[] };
+
+async function createTwin(opts: {
+  openfront: OpenFrontRuntime;
+  gameStartInfo: any;
+  clientID: string;
+  mapsRoot: string;
+}): Promise<Twin> {
+  const twin: Twin = { runner: null, hashes: [] };
+  twin.runner = await createGameRunnerForReplay(
+    opts.openfront,
+    // Each runner gets its own copy so neither can observe the other's mutations.
+    structuredClone(opts.gameStartInfo),
+    opts.clientID,
+    (gu: any) => {
+      if (!("updates" in gu)) {
+        throw new Error(`Game error: ${gu.errMsg}\n${gu.stack ?? ""}`);
+      }
+      const { GameUpdateType } = opts.openfront.GameUpdates as any;
+      twin.hashes = (gu.updates[GameUpdateType.Hash] ?? []) as { tick: number; hash: number }[];
+    },
+    opts.mapsRoot,
+  );
+  return twin;
+}
+
+function fingerprint(game: any): Map<number, DeterminismPlayerState & { clientID: string | null; displayName: string }> {
+  const out = new Map<number, DeterminismPlayerState & { clientID: string | null; displayName: string }>();
+  for (const p of game.allPlayers()) {
+    out.set(p.smallID(), {
+      clientID: p.clientID(),
+      displayName: p.displayName(),
+      tiles: p.numTilesOwned(),
+      troops: p.troops(),
+      gold: String(p.gold()),
+    });
+  }
+  return out;
+}
+
+/**
+ * Runs two independent runners on identical turns in lockstep and stops at the first tick where
+ * their hash updates or per-player tiles/troops/gold differ. Works without any recorded hashes.
+ */
+export async function checkDeterminism(opts: {
+  openfront: OpenFrontRuntime;
+  gameStartInfo: any;
+  clientID: string;
+  mapsRoot: string;
+  turnsToRun: any[];
+  log?: (msg: string) => void;
+}): Promise<DeterminismReport> {
+  const log = opts.log ?? (() => {});
+  const a = await createTwin(opts);
+  const b = await createTwin(opts);
+
+  let ticksCompared = 0;
+  let hashesCompared = 0;
+  const startedAt = performance.now();
+  for (const turn of opts.turnsToRun) {
+    a.runner.addTurn(turn);
+    a.runner.executeNextTick();
+    b.runner.addTurn(structuredClone(turn));
+    b.runner.executeNextTick();
+    ticksCompared++;
+
+    const hashA = new Map(a.hashes.map((h) => [h.tick, h.hash]));
+    let hashDivergence: DeterminismReport["hashDivergence"] = null;
+    for (const hb of b.hashes) {
+      const ha = hashA.get(hb.tick);
+      if (ha === undefined) continue;
+      hashesCompared++;
+      if (ha !== hb.hash && hashDivergence === null) hashDivergence = { tick: hb.tick, a: ha, b: hb.hash };
+    }
+
+    const fa = fingerprint(a.runner.game);
+    const fb = fingerprint(b.runner.game);
+    const players: DeterminismReport["players"] = [];
+    for (const smallID of new Set([...fa.keys(), ...fb.keys()])) {
+      const pa = fa.get(smallID);
+      const pb = fb.get(smallID);
+      if (pa && pb && pa.tiles === pb.tiles && pa.troops === pb.troops && pa.gold === pb.gold) continue;
+      players.push({
+        smallID,
+        clientID: (pa ?? pb)!.clientID,
+        displayName: (pa ?? pb)!.displayName,
+        a: pa ? { tiles: pa.tiles, troops: pa.troops, gold: pa.gold } : null,
+        b: pb ? { tiles: pb.tiles, troops: pb.troops, gold: pb.gold } : null,
+      });
+    }
+
+    if (hashDivergence !== null || players.length > 0) {
+      log(`determinism: runners diverged at turn ${turn.turnNumber} (${players.length} players differ)`);
+      return {
+        ticksCompared,
+        hashesCompared,
+        elapsedMs: performance.now() - startedAt,
+        firstDivergentTurn: turn.turnNumber,
+        hashDivergence,
+        players: players.slice(0, 50),
+      };
+    }
+  }
+
+  log(`determinism: ${ticksCompared} ticks identical (${hashesCompared} hashes compared)`);
+  return {
+    ticksCompared,
+    hashesCompared,
+    elapsedMs: performance.now() - startedAt,
+    firstDivergentTurn: null,
+    hashDivergence: null,
+    players: [],
+  };
+}
@@ -0,0 +1,152 @@
+import type { DiplomacyEvent, DiplomacyEventKind, DiplomacyReport } from "./types";
+
+export type DiplomacyTracker = {
+  afterTick: (game: any, turn: any, gameUpdates: Record<number, any[]>) => void;
+  buildReport: () => DiplomacyReport;
+};
+
+// Update type names per kind; the first one this engine version defines wins.
+const engineUpdateNames = {
+  request: ["AllianceRequest"],
+  reply: ["AllianceRequestReply"],
+  broke: ["BrokeAlliance"],
+  expired: ["AllianceExpired"],
+  extension: ["AllianceExtension"],
+  target: ["TargetPlayer"],
+  embargo: ["EmbargoEvent", "Embargo"],
+};
+type EngineUpdate = keyof typeof engineUpdateNames;
+
+/**
+ * Logs alliance, embargo and target events from the engine's updates. For kinds the engine has no
+ * update type for, the matching intents of the turn are used instead.
+ */
+export function createDiplomacyTracker(opts: {
+  gameUpdateType: Record<string, unknown>;
+  maxEvents: number;
+}): DiplomacyTracker {
+  const events: DiplomacyEvent[] = [];
+  const players = new Map<number, { smallID: number; clientID: string | null; displayName: string }>();
+  let dropped = 0;
+
+  const updateType = {} as Record<EngineUpdate, number | undefined>;
+  for (const [key, names] of Object.entries(engineUpdateNames) as [EngineUpdate, string[]][]) {
+    const name = names.find((n) => typeof opts.gameUpdateType[n] === "number");
+    updateType[key] = name === undefined ? undefined : (opts.gameUpdateType[name] as number);
+  }
+
+  function remember(p: any): number | null {
+    if (!p || typeof p.smallID !== "function") return null;
+    const smallID = p.smallID();
+    if (!players.has(smallID)) {
+      players.set(smallID, { smallID, clientID: p.clientID?.() ?? null, displayName: p.displayName() });
+    }
+    return smallID;
+  }
+
+  function bySmallID(game: any, smallID: unknown): any {
+    if (typeof smallID !== "number") return null;
+    try {
+      return game.playerBySmallID?.(smallID) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  function byPlayerID(game: any, id: unknown): any {
+    if (typeof id !== "string") return null;
+    try {
+      return game.hasPlayer?.(id) === false ? null : (game.player?.(id) ?? null);
+    } catch {
+      return null;
+    }
+  }
+
+  function log(turn: number, kind: DiplomacyEventKind, player: any, other: any, source: DiplomacyEvent["source"]) {
+    const p = remember(player);
+    if (p === null) return;
+    if (events.length >= opts.maxEvents) {
+      dropped++;
+      return;
+    }
+    events.push({ turn, kind, player: p, other: remember(other), source });
+  }
+
+  function fromEngine(game: any, turn: number, updates: Record<number, any[]>) {
+    const list = (key: EngineUpdate) => (updateType[key] === undefined ? [] : (updates[updateType[key]!] ?? []));
+
+    for (const u of list("request")) {
+      log(turn, "request", bySmallID(game, u.requestorID), bySmallID(game, u.recipientID), "engine");
+    }
+    for (const u of list("reply")) {
+      // The recipient answers, so it's the acting player.
+      const kind = u.accepted ? "accept" : "reject";
+      log(turn, kind, bySmallID(game, u.request?.recipientID), bySmallID(game, u.request?.requestorID), "engine");
+    }
+    for (const u of list("broke")) {
+      const traitor = bySmallID(game, u.traitorID);
+      const betrayed = bySmallID(game, u.betrayedID);
+      const attacking = (traitor?.outgoingAttacks?.() ?? []).some((a: any) => a.target?.() === betrayed);
+      log(turn, attacking ? "betrayal" : "break", traitor, betrayed, "engine");
+    }
+    for (const u of list("expired")) {
+      log(turn, "expire", bySmallID(game, u.player1ID), bySmallID(game, u.player2ID), "engine");
+    }
+    for (const u of list("extension")) {
+      const player = bySmallID(game, u.playerID);
+      const alliance = (player?.alliances?.() ?? []).find((a: any) => a.id?.() === u.allianceID);
+      log(turn, "extend", player, alliance?.other?.(player) ?? null, "engine");
+    }
+    for (const u of list("target")) {
+      log(turn, "target", bySmallID(game, u.playerID), bySmallID(game, u.targetID), "engine");
+    }
+    for (const u of list("embargo")) {
+      const kind = (u.event ?? u.action ?? u.name) === "stop" ? "embargoStop" : "embargoStart";
+      log(turn, kind, bySmallID(game, u.playerID ?? u.player), bySmallID(game, u.embargoedID ?? u.embargoedPlayerID), "engine");
+    }
+  }
+
+  function fromIntents(game: any, turn: any) {
+    for (const intent of turn.intents as any[]) {
+      const sender = game.playerByClientID?.(intent.clientID) ?? null;
+      if (!sender) continue;
+      switch (intent.type) {
+        case "allianceRequest":
+          if (updateType.request === undefined) log(turn.turnNumber, "request", sender, byPlayerID(game, intent.recipient), "intent");
+          break;
+        case "allianceRequestReply":
+          if (updateType.reply === undefined) {
+            log(turn.turnNumber, intent.accept ? "accept" : "reject", sender, byPlayerID(game, intent.requestor), "intent");
+          }
+          break;
+        case "breakAlliance":
+          if (updateType.broke === undefined) log(turn.turnNumber, "break", sender, byPlayerID(game, intent.recipient), "intent");
+          break;
+        case "allianceExtension":
+          if (updateType.extension === undefined) log(turn.turnNumber, "extend", sender, byPlayerID(game, intent.recipient), "intent");
+          break;
+        case "targetPlayer":
+          if (updateType.target === undefined) log(turn.turnNumber, "target", sender, byPlayerID(game, intent.target), "intent");
+          break;
+        case "embargo":
+          if (updateType.embargo === undefined) {
+            const kind = intent.action === "stop" ? "embargoStop" : "embargoStart";
+            log(turn.turnNumber, kind, sender, byPlayerID(game, intent.targetID), "intent");
+          }
+          break;
+      }
+    }
+  }
+
+  return {
+    afterTick: (game: any, turn: any, gameUpdates: Record<number, any[]>) => {
+      fromEngine(game, turn.turnNumber, gameUpdates);
+      fromIntents(game, turn);
+    },
+    buildReport: () => ({
+      players: [...players.values()].sort((a, b) => a.smallID - b.smallID),
+      events,
+      dropped,
+    }),
+  };
+}
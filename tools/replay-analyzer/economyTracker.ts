@@ -3,15 +3,17 @@ import type {
   EconomyTotals,
   EconomyPlayerSeries,
   GoldSourceBreakdown,
+  GoldStatCategory,
   GoldSourceSeries,
   TroopSourceBreakdown,
   TroopSourceSeries
 } from "./types";
+import type { Instrumentation } from "./instrumentation";
 import { asBigInt, bigintToNumberSafe, minBigInt } from "./utils";
 
-type GoldStats = { work: bigint; war: bigint; trade: bigint; steal: bigint; train: bigint };
+export type GoldStats = Record<GoldStatCategory, bigint>;
 
-function readGoldStatsForClient(allPlayersStats: any, clientID: string): GoldStats {
+export function readGoldStatsForClient(allPlayersStats: any, clientID: string): GoldStats {
   const ps = allPlayersStats?.[clientID];
   const gold = ps?.gold;
   if (!Array.isArray(gold)) {
@@ -49,7 +51,11 @@ export type EconomyTracker = {
   buildReport: () => EconomyReport;
 };
 
-export function createEconomyTracker(opts: { sampleEveryTurns: number; topN: number }): EconomyTracker {
+export function createEconomyTracker(opts: {
+  sampleEveryTurns: number;
+  topN: number;
+  instrumentation: Instrumentation;
+}): EconomyTracker {
   const totalsByClientId = new Map<string, EconomyTotals>();
   const turns: number[] = [];
   const players: { clientID: string; displayName: string }[] = [];
@@ -105,132 +111,6 @@ export function createEconomyTracker(opts: { sampleEveryTurns: number; topN: num
     troopSourcesByClientId[cid] = {};
     troopSourceSeriesByClientId[cid] = {};
 
-    // Hook the addGold method to track callers
-    const originalAddGold = p.addGold;
-    p.addGold = function(toAdd: bigint, tile?: any) {
-      // Find the first non-tracker function in the stack trace
-      const stack = new Error().stack || '';
-      const stackLines = stack.split('\n').slice(1); // Skip the first line (Error itself)
-
-      let callerFunction = 'unknown';
-      for (const line of stackLines) {
-        // Skip lines that are part of our tracking code
-        if (line.includes('economyTracker') || line.includes('at addGold')) {
-          continue;
-        }
-
-        // Extract function name from stack trace
-        const match = line.match(/at\s+([^\s(]+(?:\.[^\s(]+)?)\s*\(/);
-        if (match) {
-          callerFunction = match[1];
-          break; // Use the first valid function found
-        }
-      }
-
-      // Track the gold source cumulatively
-      if (!goldSourcesByClientId[cid][callerFunction]) {
-        goldSourcesByClientId[cid][callerFunction] = 0n;
-      }
-      goldSourcesByClientId[cid][callerFunction] += toAdd;
-
-      // Call original method
-      return originalAddGold.call(this, toAdd, tile);
-    };
-
-    // Hook the addTroops method to track callers (similar to addGold)
-    const originalAddTroops = p.addTroops;
-    p.addTroops = function(toAdd: number) {
-      // Find the first non-tracker function in the stack trace
-      const stack = new Error().stack || '';
-      const stackLines = stack.split('\n').slice(1); // Skip the first line (Error itself)
-
-      let callerFunction = 'unknown';
-      for (const line of stackLines) {
-        // Skip lines that are part of our tracking code
-        if (line.includes('economyTracker') || line.includes('at addTroops')) {
-          continue;
-        }
-
-        // Extract function name from stack trace
-        const match = line.match(/at\s+([^\s(]+(?:\.[^\s(]+)?)\s*\(/);
-        if (match) {
-          callerFunction = match[1];
-          break; // Use the first valid function found
-        }
-      }
-
-      // Track the troop source cumulatively
-      if (!troopSourcesByClientId[cid][callerFunction]) {
-        troopSourcesByClientId[cid][callerFunction] = 0n;
-      }
-      troopSourcesByClientId[cid][callerFunction] += BigInt(Math.round(toAdd));
-
-      // Call original method
-      return originalAddTroops.call(this, toAdd);
-    };
-
-    // Hook donateGold for sent donation tracking
-    if (p.donateGold) {
-      const originalDonateGold = p.donateGold;
-      p.donateGold = function(recipient: any, gold: bigint) {
-        // Track sent gold donation
-        if (!goldSourcesByClientId[cid]['sentGoldDonation']) {
-          goldSourcesByClientId[cid]['sentGoldDonation'] = 0n;
-        }
-        goldSourcesByClientId[cid]['sentGoldDonation'] += gold;
-
-        // Call original method
-        return originalDonateGold.call(this, recipient, gold);
-      };
-    }
-
-    // Hook donateTroops for sent donation tracking
-    if (p.donateTroops) {
-      const originalDonateTroops = p.donateTroops;
-      p.donateTroops = function(recipient: any, troops: number) {
-        // Track sent troop donation as a drain (negative value)
-        if (!troopSourcesByClientId[cid]['sentTroopDonation']) {
-          troopSourcesByClientId[cid]['sentTroopDonation'] = 0n;
-        }
-        troopSourcesByClientId[cid]['sentTroopDonation'] -= BigInt(Math.round(troops)); // Negative for drains
-
-        // Call original method
-        return originalDonateTroops.call(this, recipient, troops);
-      };
-    }
-
-    // Hook removeTroops for troop drains/losses
-    const originalRemoveTroops = p.removeTroops;
-    p.removeTroops = function(troops: number) {
-      // Find the first non-tracker function in the stack trace
-      const stack = new Error().stack || '';
-      const stackLines = stack.split('\n').slice(1); // Skip the first line (Error itself)
-
-      let callerFunction = 'unknown';
-      for (const line of stackLines) {
-        // Skip lines that are part of our tracking code
-        if (line.includes('economyTracker') || line.includes('at removeTroops')) {
-          continue;
-        }
-
-        // Extract function name from stack trace
-        const match = line.match(/at\s+([^\s(]+(?:\.[^\s(]+)?)\s*\(/);
-        if (match) {
-          callerFunction = match[1];
-          break; // Use the first valid function found
-        }
-      }
-
-      // Track the troop drain (store as negative to distinguish from sources)
-      if (!troopSourcesByClientId[cid][callerFunction]) {
-        troopSourcesByClientId[cid][callerFunction] = 0n;
-      }
-      troopSourcesByClientId[cid][callerFunction] -= BigInt(Math.round(troops));
-
-      // Call original method
-      return originalRemoveTroops.call(this, troops);
-    };
-
     playerByClientId.set(cid, p);
     prevGoldByClientId.set(cid, p.gold());
     prevGoldStatsByClientId.set(cid, { work: 0n, war: 0n, trade: 0n, steal: 0n, train: 0n });
@@ -238,6 +118,42 @@ export function createEconomyTracker(opts: { sampleEveryTurns: number; topN: num
     prevTroopSourcesByClientId.set(cid, {});
   }
 
+  // Source keys are the attributed caller; players without tracked breakdowns are ignored.
+  const addSource = (sources: Record<string, GoldSourceBreakdown | TroopSourceBreakdown>, self: any, key: string, amount: bigint) => {
+    const bySource = sources[self.clientID?.() ?? ""];
+    if (!bySource) return;
+    bySource[key] = (bySource[key] ?? 0n) + amount;
+  };
+  const tracked = (self: any) => !!seriesByClientId[self.clientID?.() ?? ""];
+  const troops = (n: number) => BigInt(Math.round(n));
+  const { instrumentation } = opts;
+  instrumentation.probe("PlayerImpl.addGold", {
+    report: false,
+    attributeCaller: tracked,
+    observe: (self, [toAdd], caller) => addSource(goldSourcesByClientId, self, caller!, toAdd),
+  });
+  instrumentation.probe("PlayerImpl.addTroops", {
+    report: false,
+    attributeCaller: tracked,
+    observe: (self, [toAdd], caller) => addSource(troopSourcesByClientId, self, caller!, troops(toAdd)),
+  });
+  // Drains are stored as negative amounts to distinguish them from sources
+  instrumentation.probe("PlayerImpl.removeTroops", {
+    report: false,
+    attributeCaller: tracked,
+    observe: (self, [removed], caller) => addSource(troopSourcesByClientId, self, caller!, -troops(removed)),
+  });
+  instrumentation.probe("PlayerImpl.donateGold", {
+    report: false,
+    attributeCaller: false,
+    observe: (self, [, gold]) => addSource(goldSourcesByClientId, self, "sentGoldDonation", gold),
+  });
+  instrumentation.probe("PlayerImpl.donateTroops", {
+    report: false,
+    attributeCaller: false,
+    observe: (self, [, sent]) => addSource(troopSourcesByClientId, self, "sentTroopDonation", -troops(sent)),
+  });
+
   return {
     totalsByClientId,
     init: (game: any) => {
@@ -252,8 +168,8 @@ export function createEconomyTracker(opts: { sampleEveryTurns: number; topN: num
 
       const initialStats = game.stats().stats();
       for (const { clientID: cid } of players) {
-        // Initialize with zeros to track stats accumulation during replay
-        prevGoldStatsByClientId.set(cid, { work: 0n, war: 0n, trade: 0n, steal: 0n, train: 0n });
+        // Start from the current stats (zero at game start) so --fromTurn only counts what follows
+        prevGoldStatsByClientId.set(cid, readGoldStatsForClient(initialStats, cid));
       }
     },
     afterTick: (game: any, turnNumber: number, conquestEvents: any[], isLast: boolean) => {
@@ -0,0 +1,91 @@
+import { performance } from "node:perf_hooks";
+import type { ExecutionTimingReport } from "./types";
+
+type ClassSeries = { ms: number[]; calls: number[] };
+
+export type ExecutionTimingTracker = {
+  init: (game: any) => void;
+  afterTick: (turnNumber: number) => void;
+  buildReport: () => ExecutionTimingReport;
+};
+
+function executionClassName(exec: any): string {
+  return exec?.constructor?.name || "anonymous";
+}
+
+export function createExecutionTimingTracker(): ExecutionTimingTracker {
+  const turns: number[] = [];
+  const seriesByClass = new Map<string, ClassSeries>();
+  // Accumulators for the tick currently executing; flushed in afterTick.
+  const msThisTick = new Map<string, number>();
+  const callsThisTick = new Map<string, number>();
+  const wrapped = new WeakSet<object>();
+
+  function wrapExecution(exec: any) {
+    if (!exec || typeof exec.tick !== "function" || wrapped.has(exec)) return;
+    wrapped.add(exec);
+
+    const className = executionClassName(exec);
+    const originalTick = exec.tick;
+    exec.tick = function (ticks: number) {
+      const startedAt = performance.now();
+      try {
+        return originalTick.call(this, ticks);
+      } finally {
+        msThisTick.set(className, (msThisTick.get(className) ?? 0) + (performance.now() - startedAt));
+        callsThisTick.set(className, (callsThisTick.get(className) ?? 0) + 1);
+      }
+    };
+  }
+
+  return {
+    init: (game: any) => {
+      const existing = typeof game.executions === "function" ? game.executions() : (game.execs ?? []);
+      for (const exec of existing as any[]) wrapExecution(exec);
+
+      // Executions spawn other executions through addExecution, so hooking it covers everything
+      // created after init.
+      const originalAddExecution = game.addExecution;
+      game.addExecution = function (...execs: any[]) {
+        for (const exec of execs) wrapExecution(exec);
+        return originalAddExecution.apply(this, execs);
+      };
+    },
+    afterTick: (turnNumber: number) => {
+      const idx = turns.length;
+      turns.push(turnNumber);
+      for (const [className, ms] of msThisTick) {
+        let series = seriesByClass.get(className);
+        if (!series) {
+          series = { ms: new Array(idx).fill(0), calls: new Array(idx).fill(0) };
+          seriesByClass.set(className, series);
+        }
+        series.ms.push(Math.round(ms * 1000) / 1000);
+        series.calls.push(callsThisTick.get(className) ?? 0);
+      }
+      for (const series of seriesByClass.values()) {
+        if (series.ms.length === idx) {
+          series.ms.push(0);
+          series.calls.push(0);
+        }
+      }
+      msThisTick.clear();
+      callsThisTick.clear();
+    },
+    buildReport: () => {
+      const classes = [...seriesByClass.entries()]
+        .map(([className, s]) => ({ className, totalMs: s.ms.reduce((a, b) => a + b, 0) }))
+        .sort((a, b) => b.totalMs - a.totalMs || a.className.localeCompare(b.className))
+        .map((x) => x.className);
+
+      const msByClass: Record<string, number[]> = {};
+      const callsByClass: Record<string, number[]> = {};
+      for (const className of classes) {
+        const s = seriesByClass.get(className)!;
+        msByClass[className] = s.ms;
+        callsByClass[className] = s.calls;
+      }
+      return { turns, classes, msByClass, callsByClass };
+    },
+  };
+}
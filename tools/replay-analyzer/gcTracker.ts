@@ -0,0 +1,93 @@
+import { PerformanceObserver, constants } from "node:perf_hooks";
+import type { GcEvent, GcSummary, TickSample } from "./types";
+
+const gcKindNames: Record<number, string> = {
+  [constants.NODE_PERFORMANCE_GC_MINOR]: "minor",
+  [constants.NODE_PERFORMANCE_GC_MAJOR]: "major",
+  [constants.NODE_PERFORMANCE_GC_INCREMENTAL]: "incremental",
+  [constants.NODE_PERFORMANCE_GC_WEAKCB]: "weakcb",
+};
+
+export type RawGcEntry = { kind: string; startTime: number; durationMs: number };
+
+export type GcObserver = {
+  // Resolves once entries still queued by the observer have been delivered.
+  stop: () => Promise<RawGcEntry[]>;
+};
+
+export function observeGc(): GcObserver {
+  const entries: RawGcEntry[] = [];
+  const push = (list: readonly any[]) => {
+    for (const e of list) {
+      const kind = e.detail?.kind ?? e.kind;
+      entries.push({ kind: gcKindNames[kind] ?? String(kind), startTime: e.startTime, durationMs: e.duration });
+    }
+  };
+
+  const observer = new PerformanceObserver((list) => push(list.getEntries()));
+  observer.observe({ entryTypes: ["gc"] });
+
+  return {
+    stop: async () => {
+      // GC entries are delivered on a later macrotask, and the tick loop never yields.
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      push(observer.takeRecords());
+      observer.disconnect();
+      return entries.sort((a, b) => a.startTime - b.startTime);
+    },
+  };
+}
+
+/**
+ * Assigns GC entries to the tick windows they overlap. `windows` are [start, end] performance.now()
+ * timestamps around each executeNextTick call, in order.
+ */
+export function attributeGcToTicks(
+  entries: RawGcEntry[],
+  windows: Float64Array,
+  turnNumbers: number[],
+): { gcMsByTick: Float64Array; majorGcByTick: Uint8Array; events: GcEvent[] } {
+  const n = turnNumbers.length;
+  const gcMsByTick = new Float64Array(n);
+  const majorGcByTick = new Uint8Array(n);
+  const events: GcEvent[] = [];
+
+  let t = 0;
+  for (const e of entries) {
+    const start = e.startTime;
+    const end = e.startTime + e.durationMs;
+    while (t < n && windows[2 * t + 1] < start) t++;
+
+    let landedIn: number | null = null;
+    for (let i = t; i < n && windows[2 * i] <= end; i++) {
+      const overlap = Math.min(end, windows[2 * i + 1]) - Math.max(start, windows[2 * i]);
+      if (overlap <= 0) continue;
+      landedIn ??= turnNumbers[i];
+      gcMsByTick[i] += overlap;
+      if (e.kind === "major") majorGcByTick[i] = 1;
+    }
+    events.push({ kind: e.kind, durationMs: e.durationMs, turnNumber: landedIn });
+  }
+
+  return { gcMsByTick, majorGcByTick, events };
+}
+
+export function summarizeGc(events: GcEvent[], samples: TickSample[]): GcSummary {
+  const byKind: GcSummary["byKind"] = {};
+  let totalMs = 0;
+  for (const e of events) {
+    const k = (byKind[e.kind] ??= { count: 0, totalMs: 0 });
+    k.count++;
+    k.totalMs += e.durationMs;
+    totalMs += e.durationMs;
+  }
+  // Minor GCs are frequent and short; they are already folded into the per-tick gcMs series.
+  const notable = events.filter((e) => e.kind !== "minor");
+  return {
+    count: events.length,
+    totalMs,
+    byKind,
+    ticksWithMajorGc: samples.filter((s) => s.majorGc).length,
+    events: notable.slice(0, 2000),
+  };
+}
@@ -0,0 +1,318 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { performance } from "node:perf_hooks";
+import { pathToFileURL } from "node:url";
+import type { InstrumentationReport } from "./types";
+
+// Called before the original method; `caller` is null when the probe doesn't attribute callers.
+export type CallObserver = (self: any, args: any[], caller: string | null) => void;
+
+export type ProbeOptions = {
+  observe?: CallObserver;
+  // Runs once the original method returns or throws.
+  after?: (self: any, args: any[]) => void;
+  // A predicate limits the (stack-walking) attribution to the receivers it accepts.
+  attributeCaller?: boolean | ((self: any) => boolean);
+  // Whether calls/time/callers show up in the report's instrumentation section.
+  report?: boolean;
+};
+
+type Probe = {
+  target: string;
+  className: string;
+  method: string;
+  opts: Required<Omit<ProbeOptions, "observe" | "after">> & {
+    observe: CallObserver | null;
+    after: ((self: any, args: any[]) => void) | null;
+  };
+  resolved: boolean;
+  totalCalls: number;
+  totalMs: number;
+  callsThisTick: number;
+  msThisTick: number;
+  calls: number[];
+  ms: number[];
+  callers: Map<string, { calls: number; ms: number }>;
+};
+
+// "fast" caches frame names per call site from a depth-limited structured stack; "precise" parses
+// the full formatted stack on every call.
+export type AttributionMode = "fast" | "precise";
+
+export type Instrumentation = {
+  // `target` is "ClassName.method"; classes are found among objects reachable from the game.
+  probe: (target: string, opts?: ProbeOptions) => void;
+  attach: (game: any) => void;
+  // Resolves pending probes from objects the game doesn't reference directly.
+  resolve: (objects: Iterable<any>) => void;
+  // Restores the original methods; prototypes are shared with any later runner in this process.
+  detach: () => void;
+  unresolvedTargets: () => string[];
+  attributionStats: () => { attribution: AttributionMode; attributedCalls: number; callSites: number };
+  afterTick: (turnNumber: number) => void;
+  buildReport: () => InstrumentationReport | null;
+};
+
+const stackFrameRegex = /at\s+([^\s(]+(?:\.[^\s(]+)?)\s*\(/;
+const fastStackDepth = 8;
+
+function frameName(line: string, method: string): string | null {
+  if (line.includes("instrumentation") || line.includes(`at ${method} `)) return null;
+  return line.match(stackFrameRegex)?.[1] ?? null;
+}
+
+/** First stack frame outside this module (and outside the probed method itself). */
+export function captureCaller(method: string): string {
+  const stackLines = (new Error().stack || "").split("\n").slice(1);
+  for (const line of stackLines) {
+    const name = frameName(line, method);
+    if (name !== null) return name;
+  }
+  return "unknown";
+}
+
+// Frame names keyed by receiver type + position; the same call site always formats the same way.
+const callSiteNames = new Map<string, string | null>();
+
+/**
+ * Same result as `captureCaller`, but skips stack formatting: V8 hands back at most
+ * `fastStackDepth` structured frames above `wrapper`, and each call site is formatted only once.
+ */
+export function captureCallerFast(method: string, wrapper: Function): string {
+  const prevLimit = Error.stackTraceLimit;
+  const prevPrepare = Error.prepareStackTrace;
+  let sites: NodeJS.CallSite[];
+  try {
+    Error.stackTraceLimit = fastStackDepth;
+    Error.prepareStackTrace = (_err, callSites) => callSites;
+    const holder: { stack?: unknown } = {};
+    Error.captureStackTrace(holder, wrapper);
+    sites = holder.stack as NodeJS.CallSite[];
+  } finally {
+    Error.stackTraceLimit = prevLimit;
+    Error.prepareStackTrace = prevPrepare;
+  }
+  for (const site of sites) {
+    const key = `${method}|${site.getTypeName()}|${site.getFileName()}:${site.getLineNumber()}:${site.getColumnNumber()}`;
+    let name = callSiteNames.get(key);
+    if (name === undefined) {
+      // Format through the active hook (source maps under tsx) so names match precise mode.
+      const line = prevPrepare ? String(prevPrepare(new Error(), [site])).split("\n")[1] ?? "" : `at ${site.toString()}`;
+      name = frameName(line, method);
+      callSiteNames.set(key, name);
+    }
+    if (name !== null) return name;
+  }
+  return "unknown";
+}
+
+export function parseProbeTarget(target: string): { className: string; method: string } {
+  const m = /^([A-Za-z_$][\w$]*)\.([A-Za-z_$][\w$]*)$/.exec(target);
+  if (!m) throw new Error(`Invalid probe target (expected Class.method): ${target}`);
+  return { className: m[1], method: m[2] };
+}
+
+export type ProbeConfigEntry = string | { target: string; attributeCaller?: boolean };
+
+/** Reads probes from a JSON file or a JS/TS module's default export. */
+export async function loadProbeConfig(configPath: string): Promise<{ target: string; attributeCaller?: boolean }[]> {
+  const absolute = path.resolve(process.cwd(), configPath);
+  const config = absolute.endsWith(".json")
+    ? JSON.parse(await fs.readFile(absolute, "utf8"))
+    : (await import(pathToFileURL(absolute).href)).default;
+  const entries: unknown = Array.isArray(config) ? config : config?.probes;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Invalid instrument config ${configPath}: expected an array or { probes: [...] }`);
+  }
+  return (entries as ProbeConfigEntry[]).map((entry) => {
+    const probe = typeof entry === "string" ? { target: entry } : entry;
+    parseProbeTarget(probe?.target ?? "");
+    return probe;
+  });
+}
+
+// Prototypes by class name along the prototype chains of `objects`.
+function collectClasses(objects: Iterable<any>): Map<string, any> {
+  const classes = new Map<string, any>();
+  for (const obj of objects) {
+    let proto = obj && typeof obj === "object" ? Object.getPrototypeOf(obj) : null;
+    while (proto && proto !== Object.prototype) {
+      const name = proto.constructor?.name;
+      if (name && !classes.has(name)) classes.set(name, proto);
+      proto = Object.getPrototypeOf(proto);
+    }
+  }
+  return classes;
+}
+
+// The game, its direct fields and its players/units/executions.
+function* gameObjects(game: any): Generator<any> {
+  const call = (fn: string) => {
+    try {
+      return typeof game[fn] === "function" ? game[fn]() : null;
+    } catch {
+      return null;
+    }
+  };
+
+  yield game;
+  for (const value of Object.values(game)) yield Array.isArray(value) ? value[0] : value;
+  for (const list of [call("allPlayers"), call("units"), call("executions") ?? game.execs]) {
+    yield* (list as any[]) ?? [];
+  }
+}
+
+/**
+ * Wraps configured class methods on their prototypes, counting and timing every call and
+ * optionally attributing it to the calling function. Trackers register probes with an observer;
+ * `--instrument` probes only feed the report.
+ */
+export function createInstrumentation(opts: { attribution: AttributionMode }): Instrumentation {
+  const probes: Probe[] = [];
+  let attributedCalls = 0;
+  const turns: number[] = [];
+  let game: any = null;
+  const restore: (() => void)[] = [];
+
+  // Own property on the given prototype, so sibling subclasses stay untouched.
+  function replaceMethod(proto: any, method: string, wrapper: Function) {
+    const ownDescriptor = Object.getOwnPropertyDescriptor(proto, method);
+    restore.push(() => {
+      if (ownDescriptor) Object.defineProperty(proto, method, ownDescriptor);
+      else delete proto[method];
+    });
+    Object.defineProperty(proto, method, { configurable: true, writable: true, value: wrapper });
+  }
+
+  function wrap(probe: Probe, proto: any) {
+    const original = proto[probe.method];
+    const { observe, after, attributeCaller, report } = probe.opts;
+    const method = probe.method;
+    const precise = opts.attribution === "precise";
+    const wrapper = function (this: any, ...args: any[]) {
+      let caller: string | null = null;
+      if (attributeCaller === true || (attributeCaller && attributeCaller(this))) {
+        caller = precise ? captureCaller(method) : captureCallerFast(method, wrapper);
+        attributedCalls++;
+      }
+      if (observe) observe(this, args, caller);
+      // Observer-only probes skip the timing so they stay as cheap as the hooks they replace.
+      if (!report) {
+        try {
+          return original.apply(this, args);
+        } finally {
+          if (after) after(this, args);
+        }
+      }
+      const startedAt = performance.now();
+      try {
+        return original.apply(this, args);
+      } finally {
+        const ms = performance.now() - startedAt;
+        probe.callsThisTick++;
+        probe.msThisTick += ms;
+        if (caller !== null) {
+          const c = probe.callers.get(caller) ?? { calls: 0, ms: 0 };
+          c.calls++;
+          c.ms += ms;
+          probe.callers.set(caller, c);
+        }
+        if (after) after(this, args);
+      }
+    };
+    replaceMethod(proto, method, wrapper);
+    probe.resolved = true;
+  }
+
+  function resolvePending(objects?: Iterable<any>) {
+    if (!game || probes.every((p) => p.resolved)) return;
+    const classes = collectClasses(objects ?? gameObjects(game));
+    for (const probe of probes) {
+      if (probe.resolved) continue;
+      const proto = classes.get(probe.className);
+      // A class without the method stays unresolved and shows up as such in the report.
+      if (proto && typeof proto[probe.method] === "function") wrap(probe, proto);
+    }
+  }
+
+  return {
+    probe: (target: string, opts: ProbeOptions = {}) => {
+      const { className, method } = parseProbeTarget(target);
+      probes.push({
+        target,
+        className,
+        method,
+        opts: {
+          observe: opts.observe ?? null,
+          after: opts.after ?? null,
+          attributeCaller: opts.attributeCaller ?? true,
+          report: opts.report ?? true,
+        },
+        resolved: false,
+        totalCalls: 0,
+        totalMs: 0,
+        callsThisTick: 0,
+        msThisTick: 0,
+        calls: [],
+        ms: [],
+        callers: new Map(),
+      });
+      resolvePending();
+    },
+    attach: (g: any) => {
+      game = g;
+      resolvePending();
+      // Executions are created all game long; their classes resolve as soon as the first one is added.
+      const gameProto = Object.getPrototypeOf(g);
+      const addExecution = gameProto?.addExecution;
+      if (typeof addExecution === "function") {
+        replaceMethod(gameProto, "addExecution", function (this: any, ...execs: any[]) {
+          resolvePending(execs);
+          return addExecution.apply(this, execs);
+        });
+      }
+    },
+    resolve: (objects: Iterable<any>) => resolvePending(objects),
+    detach: () => {
+      for (const undo of restore.reverse()) undo();
+      restore.length = 0;
+      game = null;
+    },
+    unresolvedTargets: () => probes.filter((p) => !p.resolved).map((p) => p.target),
+    attributionStats: () => ({ attribution: opts.attribution, attributedCalls, callSites: callSiteNames.size }),
+    afterTick: (turnNumber: number) => {
+      // Other classes that only get instantiated later in the game resolve here.
+      if (turnNumber % 100 === 0) resolvePending();
+      turns.push(turnNumber);
+      for (const probe of probes) {
+        probe.totalCalls += probe.callsThisTick;
+        probe.totalMs += probe.msThisTick;
+        if (probe.opts.report) {
+          probe.calls.push(probe.callsThisTick);
+          probe.ms.push(Math.round(probe.msThisTick * 1000) / 1000);
+        }
+        probe.callsThisTick = 0;
+        probe.msThisTick = 0;
+      }
+    },
+    buildReport: () => {
+      const reported = probes.filter((p) => p.opts.report);
+      if (reported.length === 0) return null;
+      return {
+        turns,
+        probes: reported.map((p) => ({
+          target: p.target,
+          resolved: p.resolved,
+          totalCalls: p.totalCalls,
+          totalMs: p.totalMs,
+          calls: p.calls,
+          ms: p.ms,
+          callers: [...p.callers.entries()]
+            .map(([caller, c]) => ({ caller, calls: c.calls, ms: c.ms }))
+            .sort((a, b) => b.calls - a.calls)
+            .slice(0, 20),
+        })),
+      };
+    },
+  };
+}
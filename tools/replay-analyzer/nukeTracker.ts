@@ -0,0 +1,215 @@
+import type { Instrumentation } from "./instrumentation";
+import type { NukeEntry, NukeReport, NukeVictim } from "./types";
+
+type OpenNuke = {
+  entry: NukeEntry;
+  nuke: any;
+  mg: any;
+  victims: Map<any, NukeVictim>;
+};
+
+export type NukeTracker = {
+  beforeTick: (turn: any) => void;
+  buildReport: () => NukeReport;
+};
+
+const isPlayer = (p: any) => !!p && typeof p.isPlayer === "function" && p.isPlayer();
+const unitID = (u: any) => (typeof u?.id === "function" ? Number(u.id()) : null);
+
+function tileXY(mg: any, tile: number): [number, number] | null {
+  try {
+    return [mg.x(tile), mg.y(tile)];
+  } catch {
+    return null;
+  }
+}
+
+// The launching silo is the owner's silo closest to where the nuke spawned.
+function findSilo(mg: any, owner: any, nuke: any): number | null {
+  const spawn = tileXY(mg, nuke.tile?.());
+  if (!spawn) return null;
+  let best: { id: number | null; d: number } | null = null;
+  for (const unit of owner.units?.() ?? []) {
+    if (unit.type?.() !== "Missile Silo") continue;
+    const at = tileXY(mg, unit.tile());
+    if (!at) continue;
+    const d = (at[0] - spawn[0]) ** 2 + (at[1] - spawn[1]) ** 2;
+    if (!best || d < best.d) best = { id: unitID(unit), d };
+  }
+  return best?.id ?? null;
+}
+
+/**
+ * Follows every NukeExecution and MirvExecution from launch to detonation or interception. While a
+ * nuke detonates, the tiles relinquished, troops removed and units deleted are charged to their
+ * owners as its victims; a nuke unit deleted with a destroyer outside of that was intercepted.
+ */
+export function createNukeTracker(opts: { instrumentation: Instrumentation; maxNukes: number }): NukeTracker {
+  const nukes: NukeEntry[] = [];
+  const openByExecution = new Map<any, OpenNuke>();
+  const openByUnit = new Map<any, OpenNuke>();
+  const droppedExecutions = new WeakSet<object>();
+  let turnNumber = 0;
+  let dropped = 0;
+  let detonating: OpenNuke | null = null;
+  let currentSam: any = null;
+
+  function open(exec: any): OpenNuke | null {
+    const nuke = exec.nuke;
+    const owner = exec.player ?? nuke.owner?.();
+    const mg = exec.mg;
+    if (!owner || !mg) return null;
+    if (nukes.length >= opts.maxNukes) {
+      dropped++;
+      droppedExecutions.add(exec);
+      return null;
+    }
+
+    const targetTile = Number(exec.dst);
+    let target: any = null;
+    try {
+      target = mg.owner(targetTile);
+    } catch {
+      target = null;
+    }
+    const xy = tileXY(mg, targetTile);
+    const entry: NukeEntry = {
+      nukeType: String(nuke.type?.() ?? exec.nukeType ?? "unknown"),
+      ownerSmallID: owner.smallID(),
+      ownerName: owner.displayName(),
+      siloUnitID: findSilo(mg, owner, nuke),
+      launchTurn: turnNumber,
+      targetTile,
+      targetX: xy?.[0] ?? null,
+      targetY: xy?.[1] ?? null,
+      targetSmallID: isPlayer(target) ? target.smallID() : null,
+      targetName: isPlayer(target) ? target.displayName() : null,
+      endTurn: null,
+      outcome: "inFlight",
+      interceptorSmallID: null,
+      interceptorName: null,
+      samUnitID: null,
+      tilesDestroyed: 0,
+      troopsKilled: 0,
+      victims: [],
+    };
+    nukes.push(entry);
+    const rec = { entry, nuke, mg, victims: new Map<any, NukeVictim>() };
+    openByExecution.set(exec, rec);
+    openByUnit.set(nuke, rec);
+    return rec;
+  }
+
+  function victim(rec: OpenNuke, player: any): NukeVictim {
+    let v = rec.victims.get(player);
+    if (!v) {
+      v = { smallID: player.smallID(), displayName: player.displayName(), tiles: 0, troops: 0, unitsLost: {}, goldLost: 0 };
+      rec.victims.set(player, v);
+    }
+    return v;
+  }
+
+  function close(exec: any, rec: OpenNuke) {
+    const { entry } = rec;
+    entry.endTurn = turnNumber;
+    if (entry.outcome === "inFlight") entry.outcome = exec.constructor?.name === "MirvExecution" ? "split" : "lost";
+    entry.troopsKilled = Math.round(entry.troopsKilled);
+    entry.victims = [...rec.victims.values()]
+      .map((v) => ({ ...v, troops: Math.round(v.troops) }))
+      .sort((a, b) => b.tiles - a.tiles);
+    openByExecution.delete(exec);
+    openByUnit.delete(rec.nuke);
+  }
+
+  const { instrumentation } = opts;
+  for (const className of ["NukeExecution", "MirvExecution"]) {
+    instrumentation.probe(`${className}.tick`, {
+      report: false,
+      attributeCaller: false,
+      after: (exec) => {
+        let rec = openByExecution.get(exec) ?? null;
+        // The nuke unit is built on the execution's first tick that finds a silo.
+        if (!rec && exec.nuke && !droppedExecutions.has(exec)) rec = open(exec);
+        if (rec && exec.isActive?.() === false) close(exec, rec);
+      },
+    });
+  }
+  instrumentation.probe("NukeExecution.detonate", {
+    report: false,
+    attributeCaller: false,
+    observe: (exec) => {
+      detonating = openByExecution.get(exec) ?? null;
+      if (detonating) detonating.entry.outcome = "detonated";
+    },
+    after: () => {
+      detonating = null;
+    },
+  });
+  instrumentation.probe("SAMLauncherExecution.tick", {
+    report: false,
+    attributeCaller: false,
+    observe: (exec) => {
+      currentSam = exec.sam ?? exec.unit ?? null;
+    },
+    after: () => {
+      currentSam = null;
+    },
+  });
+  instrumentation.probe("PlayerImpl.relinquish", {
+    report: false,
+    attributeCaller: false,
+    observe: (self) => {
+      if (!detonating) return;
+      detonating.entry.tilesDestroyed++;
+      victim(detonating, self).tiles++;
+    },
+  });
+  instrumentation.probe("PlayerImpl.removeTroops", {
+    report: false,
+    attributeCaller: false,
+    observe: (self, [troops]) => {
+      if (!detonating) return;
+      const n = Number(troops) || 0;
+      detonating.entry.troopsKilled += n;
+      victim(detonating, self).troops += n;
+    },
+  });
+  instrumentation.probe("UnitImpl.delete", {
+    report: false,
+    attributeCaller: false,
+    observe: (self, [, destroyer]) => {
+      if (detonating) {
+        if (self === detonating.nuke) return;
+        const owner = self.owner?.();
+        if (!isPlayer(owner)) return;
+        const v = victim(detonating, owner);
+        const type = String(self.type?.() ?? "unknown");
+        v.unitsLost[type] = (v.unitsLost[type] ?? 0) + 1;
+        try {
+          v.goldLost += Number(detonating.mg.config().unitInfo(self.type()).cost(owner)) || 0;
+        } catch {
+          // Cost lookups differ across engine versions; units still count.
+        }
+        return;
+      }
+      const rec = openByUnit.get(self);
+      if (!rec || !isPlayer(destroyer)) return;
+      rec.entry.outcome = "intercepted";
+      rec.entry.interceptorSmallID = destroyer.smallID();
+      rec.entry.interceptorName = destroyer.displayName();
+      rec.entry.samUnitID = unitID(currentSam);
+    },
+  });
+
+  return {
+    beforeTick: (turn: any) => {
+      turnNumber = turn.turnNumber;
+    },
+    buildReport: () => {
+      for (const rec of openByExecution.values()) {
+        rec.entry.victims = [...rec.victims.values()];
+      }
+      return { nukes, dropped };
+    },
+  };
+}
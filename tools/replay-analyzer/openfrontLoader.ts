@@ -17,6 +17,10 @@ export type OpenFrontRuntime = {
   GameRunner: {
     createGameRunner: (...args: any[]) => any;
   };
+  // Missing in older commits.
+  StatsSchemas: {
+    PlayerStatsSchema?: { shape?: Record<string, unknown> };
+  } | null;
 };
 
 async function importFromGameRoot<T>(gameRoot: string, relPath: string): Promise<T> {
@@ -62,6 +66,10 @@ export async function loadOpenFrontRuntime(gameRoot: string): Promise<OpenFrontR
     throw new Error(`OpenFront GameRunner module missing expected exports at ${path.resolve(gameRoot, "src/core/GameRunner")}`);
   }
 
-  return { Schemas, Game, GameUpdates, GameRunner };
+  const StatsSchemas = await importFirst<any>(gameRoot, ["src/core/StatsSchemas.ts", "src/core/StatsSchemas.js"]).catch(
+    () => null,
+  );
+
+  return { Schemas, Game, GameUpdates, GameRunner, StatsSchemas };
 }
 
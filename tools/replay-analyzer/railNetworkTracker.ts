@@ -0,0 +1,182 @@
+import { performance } from "node:perf_hooks";
+import type { Instrumentation } from "./instrumentation";
+import type { RailNetworkReport, RailSegmentEntry, RailStationEntry, TrainTripEntry } from "./types";
+
+export type RailNetworkTracker = {
+  beforeTick: (turn: any) => void;
+  afterTick: (turnNumber: number) => void;
+  buildReport: () => RailNetworkReport;
+};
+
+const unitOf = (station: any) => station?.unit ?? station?._unit ?? null;
+const unitID = (station: any) => {
+  const unit = unitOf(station);
+  return typeof unit?.id === "function" ? Number(unit.id()) : -1;
+};
+const ownerOf = (station: any) => unitOf(station)?.owner?.() ?? null;
+
+/**
+ * Records train stations as they join the rail network, the railroads built between them, and
+ * every TrainExecution from its first tick to its last. Revenue is the `addGold` calls made while
+ * a station handles a train stop.
+ */
+export function createRailNetworkTracker(opts: { instrumentation: Instrumentation; maxTrips: number }): RailNetworkTracker {
+  const stations = new Map<any, RailStationEntry>();
+  const segments: RailSegmentEntry[] = [];
+  const seenRailroads = new WeakSet<object>();
+  const trips: TrainTripEntry[] = [];
+  const openByExecution = new Map<any, TrainTripEntry>();
+  const droppedExecutions = new WeakSet<object>();
+  const incomeByPlayer: Record<number, number> = {};
+  const turns: number[] = [];
+  const activeTrains: number[] = [];
+  const trainTickMs: number[] = [];
+  let turnNumber = 0;
+  let droppedTrips = 0;
+  let msThisTick = 0;
+  let tickStart = 0;
+  let currentTrain: any = null;
+  let currentStop: { station: RailStationEntry | null; trip: TrainTripEntry | null } | null = null;
+
+  function stationEntry(station: any): RailStationEntry | null {
+    const known = stations.get(station);
+    if (known) return known;
+    const unit = unitOf(station);
+    const owner = ownerOf(station);
+    if (!unit || !owner) return null;
+    const entry: RailStationEntry = {
+      unitID: unitID(station),
+      unitType: String(unit.type?.() ?? "unknown"),
+      ownerSmallID: owner.smallID(),
+      ownerName: owner.displayName(),
+      builtTurn: turnNumber,
+      removedTurn: null,
+      stops: 0,
+      revenue: 0,
+    };
+    stations.set(station, entry);
+    return entry;
+  }
+
+  function openTrip(exec: any): TrainTripEntry | null {
+    const owner = exec.player ?? exec.owner?.();
+    if (!owner || typeof owner.smallID !== "function") return null;
+    if (trips.length >= opts.maxTrips) {
+      droppedTrips++;
+      droppedExecutions.add(exec);
+      return null;
+    }
+    const entry: TrainTripEntry = {
+      ownerSmallID: owner.smallID(),
+      ownerName: owner.displayName(),
+      originUnitID: unitID(exec.source),
+      destinationUnitID: unitID(exec.destination),
+      originOwnerName: ownerOf(exec.source)?.displayName() ?? "?",
+      destinationOwnerName: ownerOf(exec.destination)?.displayName() ?? "?",
+      startTurn: turnNumber,
+      endTurn: null,
+      revenue: 0,
+    };
+    trips.push(entry);
+    openByExecution.set(exec, entry);
+    return entry;
+  }
+
+  const { instrumentation } = opts;
+  instrumentation.probe("RailNetworkImpl.connectStation", {
+    report: false,
+    attributeCaller: false,
+    observe: (_self, [station]) => {
+      // Stations are only reachable through the network's internals, so resolve their class here.
+      instrumentation.resolve([station]);
+      stationEntry(station);
+    },
+  });
+  instrumentation.probe("RailNetworkImpl.removeStation", {
+    report: false,
+    attributeCaller: false,
+    observe: (_self, [station]) => {
+      const entry = stations.get(station);
+      if (entry && entry.removedTurn === null) entry.removedTurn = turnNumber;
+    },
+  });
+  instrumentation.probe("TrainStation.addRailroad", {
+    report: false,
+    attributeCaller: false,
+    observe: (_self, [railroad]) => {
+      // Each railroad is added to the stations at both of its ends.
+      if (!railroad || seenRailroads.has(railroad)) return;
+      seenRailroads.add(railroad);
+      segments.push({
+        fromUnitID: unitID(railroad.from),
+        toUnitID: unitID(railroad.to),
+        tiles: Array.isArray(railroad.tiles) ? railroad.tiles.length : 0,
+        builtTurn: turnNumber,
+        ownerSmallID: ownerOf(railroad.from)?.smallID() ?? null,
+      });
+    },
+  });
+  instrumentation.probe("TrainExecution.tick", {
+    report: false,
+    attributeCaller: false,
+    observe: (exec) => {
+      tickStart = performance.now();
+      currentTrain = exec;
+      if (!openByExecution.has(exec) && !droppedExecutions.has(exec)) openTrip(exec);
+    },
+    after: (exec) => {
+      msThisTick += performance.now() - tickStart;
+      currentTrain = null;
+      const trip = openByExecution.get(exec);
+      if (!trip || exec.isActive?.() !== false) return;
+      trip.endTurn = turnNumber;
+      openByExecution.delete(exec);
+    },
+  });
+  instrumentation.probe("TrainStation.onTrainStop", {
+    report: false,
+    attributeCaller: false,
+    observe: (station, [exec]) => {
+      const entry = stationEntry(station);
+      if (entry) entry.stops++;
+      currentStop = { station: entry, trip: openByExecution.get(exec ?? currentTrain) ?? null };
+    },
+    after: () => {
+      currentStop = null;
+    },
+  });
+  instrumentation.probe("PlayerImpl.addGold", {
+    report: false,
+    attributeCaller: false,
+    observe: (self, [gold]) => {
+      if (!currentStop) return;
+      const amount = Number(gold) || 0;
+      if (currentStop.station) currentStop.station.revenue += amount;
+      if (currentStop.trip) currentStop.trip.revenue += amount;
+      const id = self.smallID();
+      incomeByPlayer[id] = (incomeByPlayer[id] ?? 0) + amount;
+    },
+  });
+
+  return {
+    beforeTick: (turn: any) => {
+      turnNumber = turn.turnNumber;
+      msThisTick = 0;
+    },
+    afterTick: (turn: number) => {
+      turns.push(turn);
+      activeTrains.push(openByExecution.size);
+      trainTickMs.push(Math.round(msThisTick * 1000) / 1000);
+    },
+    buildReport: () => ({
+      stations: [...stations.values()],
+      segments,
+      trips,
+      droppedTrips,
+      incomeByPlayer,
+      turns,
+      activeTrains,
+      trainTickMs,
+    }),
+  };
+}
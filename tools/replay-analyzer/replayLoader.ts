@@ -3,6 +3,48 @@ import path from "node:path";
 import type { OpenFrontRuntime } from "./openfrontLoader";
 import { expandTurns, asBigInt, isId } from "./utils";
 
+export async function extractReplayGitCommit(absoluteReplayPath: string): Promise<string | null> {
+  const raw = await fs.readFile(absoluteReplayPath, "utf8");
+  const json = JSON.parse(raw.replace(/^\uFEFF/, ""));
+  return typeof json?.gitCommit === "string" ? json.gitCommit : null;
+}
+
+const replayIdRegex = /^[a-zA-Z0-9]{8}$/;
+export async function resolveReplayInputToPath(opts: {
+  replayInput: string;
+  apiBase: string;
+  repoRoot: string;
+  log?: (msg: string) => void;
+}): Promise<string> {
+  const log = opts.log ?? (() => {});
+  const asPath = path.resolve(process.cwd(), opts.replayInput);
+  try {
+    await fs.access(asPath);
+    return asPath;
+  } catch {
+    // continue
+  }
+
+  if (!replayIdRegex.test(opts.replayInput)) {
+    throw new Error(`Replay not found on disk and not a valid gameID: ${opts.replayInput}`);
+  }
+
+  const apiBase = opts.apiBase.replace(/\/+$/, "");
+  const url = `${apiBase}/game/${opts.replayInput}`;
+  log(`fetching replay: ${url}`);
+  const res = await fetch(url, { method: "GET", headers: { "Content-Type": "application/json" } });
+  const text = await res.text();
+  if (!res.ok) {
+    throw new Error(`Failed to fetch replay ${opts.replayInput} (${res.status} ${res.statusText}): ${text}`);
+  }
+
+  const outDir = path.join(opts.repoRoot, "replays");
+  await fs.mkdir(outDir, { recursive: true });
+  const outPath = path.join(outDir, `${opts.replayInput}.json`);
+  await fs.writeFile(outPath, text, "utf8");
+  return outPath;
+}
+
 type Turn = {
   turnNumber: number;
   intents: unknown[];
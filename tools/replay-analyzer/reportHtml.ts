@@ -57,6 +57,9 @@ export function reportHtml(d3Source: string, chartJsSource: string, report: Repl
       .collapsible-content { max-height: 0; overflow: hidden; transition: max-height 0.3s ease-out; }
       .collapsible-content.expanded { max-height: 1000px; }
       .summary-sticky { position: sticky; top: 0; z-index: 100; background: #0b1220; }
+      select { background: rgba(0,0,0,0.25); border: 1px solid rgba(255,255,255,0.10); color: #e5e7eb; border-radius: 6px; padding: 3px 6px; }
+      .delta-pos { color: #34d399; }
+      .delta-neg { color: #fb7185; }
     </style>
   </head>
   <body>
@@ -65,7 +68,7 @@ export function reportHtml(d3Source: string, chartJsSource: string, report: Repl
       <div class="meta">
         replay: <a href="${report.meta.apiBase}/game/${report.meta.gameID}" target="_blank">${report.meta.gameID}</a><br/>
         git: ${report.meta.replayGitCommit ?? "n/a"}<br/>
-        map: ${report.meta.map} (${report.meta.mapSize}) | turns: ${report.meta.numTurns} | simulated: ${report.meta.numTicksSimulated}<br/>
+        map: ${report.meta.map} (${report.meta.mapSize}) | turns: ${report.meta.numTurns} | simulated: ${report.meta.numTicksSimulated}${report.meta.fromTurn !== null ? ` (measured from turn ${report.meta.fromTurn})` : ""}${report.meta.stoppedAtTurn !== null ? ` | stopped at turn ${report.meta.stoppedAtTurn} (first hash mismatch)` : ""}<br/>
         unknown clientIDs: ${report.meta.unknownClientIds.total} (non-mark: ${report.meta.unknownClientIds.withNonMarkIntents}, mark-only: ${report.meta.unknownClientIds.markOnly})<br/>
         generated: ${report.meta.generatedAt}
       </div>
@@ -84,16 +87,62 @@ export function reportHtml(d3Source: string, chartJsSource: string, report: Repl
         </div>
       </div>
 
+${
+        report.assertions.length > 0
+          ? `
+      <div class="card" style="margin-top: 14px;">
+        <h2>✅ Assertions</h2>
+        <div id="assertions"></div>
+      </div>
+`
+          : ""
+      }
       <div class="card" style="margin-top: 14px;">
         <h2 class="collapsible collapsed" onclick="toggleDiagnostics()">Diagnostics</h2>
         <div id="diagnostics" class="collapsible-content muted"></div>
       </div>
-
+${
+        report.desync
+          ? `
+      <div class="card" style="margin-top: 14px;">
+        <h2>Desync</h2>
+        <div id="desync"></div>
+      </div>
+`
+          : ""
+      }
+${
+        report.determinism
+          ? `
+      <div class="card" style="margin-top: 14px;">
+        <h2>Determinism check</h2>
+        <div id="determinism"></div>
+      </div>
+`
+          : ""
+      }
       <div class="grid" style="margin-top: 14px;">
         <div class="card">
           <h2>Tick execution time (ms)</h2>
           <div id="chart-tick-ms" class="chart"></div>
         </div>
+        <div class="card">
+          <h2>🧠 Heap / RSS (MB)</h2>
+          <div id="chart-heap" class="chart"></div>
+        </div>
+        <div class="card">
+          <h2>🧹 GC time per tick (ms)</h2>
+          <div id="chart-gc-ms" class="chart"></div>
+        </div>
+        <div class="card">
+          <h2>📦 GameUpdates per tick (by type)</h2>
+          <div id="chart-updates" class="chart"></div>
+        </div>
+        <div class="card">
+          <h2>📦 Largest update payloads</h2>
+          <div class="muted" style="font-size: 11px; margin: 0 0 6px;">Approximate worker → main thread bytes (update JSON + packed tile updates). Click a row to zoom the timeline.</div>
+          <div id="updates-table" style="overflow:auto; max-height: 230px;"></div>
+        </div>
         <div class="card">
           <h2>Intents per tick</h2>
           <div id="chart-intents" class="chart"></div>
@@ -112,6 +161,123 @@ export function reportHtml(d3Source: string, chartJsSource: string, report: Repl
         </div>
       </div>
 
+      <div class="card" style="margin-top: 14px;">
+        <h2>🐢 Slow ticks</h2>
+        <div id="slow-ticks-info" class="muted" style="font-size: 12px; margin: 0 0 10px;"></div>
+        <div id="slow-ticks" style="overflow:auto; max-height: 420px;"></div>
+      </div>
+
+${
+        report.compare
+          ? `
+      <div class="grid" style="margin-top: 14px;">
+        <div class="card">
+          <h2>🆚 Tick execution: base vs compare (ms)</h2>
+          <div class="muted mono" style="font-size: 11px; margin: 0 0 6px;">
+            base: ${report.compare.base.label}<br/>compare: ${report.compare.other.label} (<a href="${report.compare.other.reportPath.split(/[\\/]/).pop()}">report</a>)
+          </div>
+          <div id="chart-compare-tick-ms" class="chart"></div>
+        </div>
+        <div class="card">
+          <h2>🆚 Percentile deltas</h2>
+          <div id="compare-summary" style="overflow:auto;"></div>
+        </div>
+      </div>
+      <div class="card" style="margin-top: 14px;">
+        <h2>🆚 Per-player differences</h2>
+        <div id="compare-players" style="overflow:auto; max-height: 420px;"></div>
+      </div>
+`
+          : ""
+      }
+${
+        report.benchmark
+          ? `
+      <div class="grid" style="margin-top: 14px;">
+        <div class="card">
+          <h2>🔁 Tick execution across ${report.benchmark.runs} runs (ms)</h2>
+          <div id="chart-benchmark" class="chart"></div>
+        </div>
+        <div class="card">
+          <h2>🔁 Run-to-run statistics</h2>
+          <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+            ${report.benchmark.runs} measured runs after ${report.benchmark.warmupRuns} warm-up runs, without trackers. CI is the two-sided 95% interval of the mean.
+          </div>
+          <div id="benchmark-table" style="overflow:auto;"></div>
+        </div>
+      </div>
+`
+          : ""
+      }
+${
+        report.trackerOverhead
+          ? `
+      <div class="card" style="margin-top: 14px;">
+        <h2>🧮 Tracker overhead</h2>
+        <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+          Instrumented run vs ${report.trackerOverhead.baselineRuns === 1 ? "one tracker-free baseline run" : `the mean of ${report.trackerOverhead.baselineRuns} tracker-free runs`}.
+          ${report.trackerOverhead.attribution} caller attribution, ${report.trackerOverhead.attributedCalls.toLocaleString("en-US")} attributed calls. The baseline runs after the JIT has warmed up, so small overheads are noisy.
+        </div>
+        <div id="tracker-overhead-table" style="overflow:auto;"></div>
+      </div>
+`
+          : ""
+      }
+${
+        report.executionTiming
+          ? `
+      <div class="grid" style="margin-top: 14px;">
+        <div class="card">
+          <h2>⏱️ Execution time by class (ms)</h2>
+          <div id="chart-exec-timing" class="chart"></div>
+        </div>
+        <div class="card">
+          <h2>⏱️ Most expensive executions</h2>
+          <div id="exec-timing-table" style="overflow:auto; max-height: 260px;"></div>
+        </div>
+      </div>
+`
+          : ""
+      }
+${
+        report.instrumentation
+          ? `
+      <div class="grid" style="margin-top: 14px;">
+        <div class="card">
+          <h2>🪝 Instrumented methods (ms)</h2>
+          <div id="chart-instrumentation" class="chart"></div>
+        </div>
+        <div class="card">
+          <h2>🪝 Probes and callers</h2>
+          <div class="muted" style="font-size: 12px; margin: 0 0 6px;">Calls and time follow the selected range; callers cover the whole run.</div>
+          <div id="instrumentation-table" style="overflow:auto; max-height: 260px;"></div>
+        </div>
+      </div>
+`
+          : ""
+      }
+${
+        report.cpuProfiles.length > 0
+          ? `
+      <div class="card" style="margin-top: 14px;">
+        <h2>🔥 CPU profile</h2>
+        <div class="controls muted">
+          <label>Profile <select id="cpu-profile-select"></select></label>
+          <label>Group by <select id="cpu-profile-group"><option value="function">function</option><option value="file">source file</option></select></label>
+          <label>Sort by <select id="cpu-profile-sort"><option value="selfMs">self time</option><option value="totalMs">total time</option></select></label>
+          <span id="cpu-profile-info" class="mono"></span>
+        </div>
+        <div class="grid">
+          <div id="cpu-profile-table" style="overflow:auto; max-height: 480px;"></div>
+          <div>
+            <div class="muted" style="font-size: 11px; margin: 0 0 6px;">Flame graph (icicle): click a frame to zoom, click the root to reset. Not filtered by the timeline range.</div>
+            <div id="cpu-profile-flame" style="overflow:auto; max-height: 460px;"></div>
+          </div>
+        </div>
+      </div>
+`
+          : ""
+      }
       <div class="grid" style="margin-top: 14px;">
         <!-- Income Sources -->
         <div class="card">
@@ -169,6 +335,190 @@ export function reportHtml(d3Source: string, chartJsSource: string, report: Repl
 
       </div>
 
+${
+        report.attackLedger
+          ? `
+      <div class="grid" style="margin-top: 14px;">
+        <div class="card">
+          <h2>⚔️ Attack efficiency (tiles per troop sent, cumulative)</h2>
+          <div id="chart-attack-efficiency" class="chart"></div>
+        </div>
+        <div class="card">
+          <h2>⚔️ Attack ledger</h2>
+          <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+            ${report.attackLedger.attacks.length.toLocaleString("en-US")} attacks${report.attackLedger.dropped > 0 ? ` (${report.attackLedger.dropped.toLocaleString("en-US")} more not recorded)` : ""}, started in the selected range. Click a column header to sort.
+          </div>
+          <div class="controls muted">
+            <input type="text" id="attack-search" placeholder="filter attacker / target" class="mono" />
+          </div>
+          <div id="attack-ledger-table" style="overflow:auto; max-height: 260px;"></div>
+        </div>
+      </div>
+`
+          : ""
+      }
+${
+        report.tradeRoutes
+          ? `
+      <div class="card" style="margin-top: 14px;">
+        <h2>🚢 Trade routes</h2>
+        <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+          ${report.tradeRoutes.ships.length.toLocaleString("en-US")} trade ships${report.tradeRoutes.dropped > 0 ? ` (${report.tradeRoutes.dropped.toLocaleString("en-US")} more not recorded)` : ""}. Ships that left in the selected range; gold is what each side was paid, in K.
+          <span id="trade-summary" class="mono"></span>
+        </div>
+        <div class="controls muted">
+          <label>Player <select id="trade-player"></select></label>
+        </div>
+        <div class="grid">
+          <div>
+            <div id="chart-trade-network" class="chart" style="height: 320px;"></div>
+          </div>
+          <div>
+            <div id="trade-partner-table" style="overflow:auto; max-height: 320px;"></div>
+          </div>
+        </div>
+        <div id="trade-port-table" style="overflow:auto; max-height: 260px; margin-top: 10px;"></div>
+      </div>
+`
+          : ""
+      }
+${
+        report.railNetwork
+          ? `
+      <div class="grid" style="margin-top: 14px;">
+        <div class="card">
+          <h2>🚆 Active trains</h2>
+          <div id="chart-active-trains" class="chart"></div>
+        </div>
+        <div class="card">
+          <h2>⏱️ TrainExecution tick time (ms)</h2>
+          <div id="chart-train-tick-ms" class="chart"></div>
+        </div>
+      </div>
+
+      <div class="grid" style="margin-top: 14px;">
+        <div class="card">
+          <h2>🛤️ Rail network</h2>
+          <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+            ${report.railNetwork.stations.length.toLocaleString("en-US")} stations, ${report.railNetwork.segments.length.toLocaleString("en-US")} railroads and ${report.railNetwork.trips.length.toLocaleString("en-US")} train trips${report.railNetwork.droppedTrips > 0 ? ` (${report.railNetwork.droppedTrips.toLocaleString("en-US")} more not recorded)` : ""}. Network per player at the end of the selected range, trips and gold (K) within it.
+          </div>
+          <div id="rail-player-table" style="overflow:auto; max-height: 300px;"></div>
+        </div>
+        <div class="card">
+          <h2>🚉 Station revenue</h2>
+          <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+            Stops and gold (K) paid out per station over the whole run.
+          </div>
+          <div id="rail-station-table" style="overflow:auto; max-height: 300px;"></div>
+        </div>
+      </div>
+`
+          : ""
+      }
+      <div class="card" style="margin-top: 14px;">
+        <h2>🕊️ Diplomacy timeline</h2>
+        <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+          ${report.diplomacy.events.length.toLocaleString("en-US")} alliance, embargo and target events${report.diplomacy.dropped > 0 ? ` (${report.diplomacy.dropped.toLocaleString("en-US")} more not recorded)` : ""}. One lane per player, for the 20 most active players in the selected range.
+        </div>
+        <div id="chart-diplomacy" class="chart" style="height: auto; min-height: 120px;"></div>
+      </div>
+
+      <div class="card" style="margin-top: 14px;">
+        <h2>🗺️ Relationships at end of range</h2>
+        <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+          Row player towards column player after the last event in the selected range: 🤝 allied, ⚔️ betrayed, 🚫 embargoed, 🎯 targeted.
+        </div>
+        <div id="diplomacy-matrix" style="overflow:auto; max-height: 420px;"></div>
+      </div>
+
+      <div class="card" style="margin-top: 14px;">
+        <h2>🏆 Standings</h2>
+        <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+          Placements rebuilt from the simulation: alive players by final tiles, then eliminated players, last eliminated first.
+          <span id="standings-winner"></span>
+        </div>
+        <div id="standings-table" style="overflow:auto; max-height: 320px;"></div>
+      </div>
+
+      <div class="grid" style="margin-top: 14px;">
+        <div class="card">
+          <h2>📈 Placement over time (top ${Object.keys(report.standings.ranksBySmallID).length})</h2>
+          <div id="chart-bump" class="chart" style="height: 320px;"></div>
+        </div>
+        <div class="card">
+          <h2>💀 Kill feed</h2>
+          <div class="muted" style="font-size: 12px; margin: 0 0 6px;">Eliminations in the selected range and who conquered the player.</div>
+          <div id="kill-feed" style="overflow:auto; max-height: 300px;"></div>
+        </div>
+      </div>
+
+${
+        report.territory
+          ? `
+      <div class="card" style="margin-top: 14px;">
+        <h2>🗺️ Territory</h2>
+        <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+          Tile ownership at the last snapshot in the selected range (every ${report.territory.sampleEveryTurns.toLocaleString("en-US")} turns, one cell per ${report.territory.stride}×${report.territory.stride} tiles).
+          <span id="territory-turn"></span>
+        </div>
+        <div style="display: flex; gap: 14px; align-items: flex-start;">
+          <canvas id="territory-canvas" style="flex: 1; min-width: 0; width: 100%; image-rendering: pixelated; border-radius: 6px;"></canvas>
+          <div id="territory-legend" style="width: 220px; overflow:auto; max-height: 420px; font-size: 12px;"></div>
+        </div>
+      </div>
+`
+          : ""
+      }
+${
+        report.nukes
+          ? `
+      <div class="card" style="margin-top: 14px;">
+        <h2>☢️ Nukes</h2>
+        <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+          Nukes launched in the selected range${report.nukes.dropped > 0 ? ` (${report.nukes.dropped.toLocaleString("en-US")} more not recorded)` : ""}; detonation turns are marked on the tick execution time chart.
+          <span id="nuke-summary"></span>
+        </div>
+        <div id="nuke-table" style="overflow:auto; max-height: 360px;"></div>
+      </div>
+`
+          : ""
+      }
+      <div class="card" style="margin-top: 14px;">
+        <h2>🏗️ Build order</h2>
+        <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+          <span class="mono">build_unit</span> and <span class="mono">upgrade_structure</span> intents per player, with the player's gold (K) when the intent ran.
+          Intents without a matching new unit (or level) within ${report.buildOrder.matchWindowTurns} turns are marked as not built.
+        </div>
+        <div class="controls muted">
+          <input type="text" id="build-order-search" placeholder="filter player" class="mono" />
+        </div>
+        <div id="build-order-list" style="overflow:auto; max-height: 520px;"></div>
+      </div>
+
+      <div class="card" style="margin-top: 14px;">
+        <h2>🧾 Stats reconciliation</h2>
+        <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+          End-of-run gold stats per category for ${report.statsReconciliation.playersCompared} players, flagged above <span class="mono">${report.statsReconciliation.tolerancePct}%</span>.
+          <b>${report.statsReconciliation.engineDrift}</b> differ from the stats recorded in the replay (engine drift);
+          <b>${report.statsReconciliation.accountingMismatches}</b> economy tracker totals differ from the engine's own stats (analyzer accounting).
+          ${report.statsReconciliation.complete ? "" : "<br/>The run did not reach the end of the replay, so recorded stats are expected to be ahead."}
+        </div>
+        <div class="controls muted">
+          <label><input type="checkbox" id="reconciliation-flagged-only" checked /> Flagged only</label>
+        </div>
+        <div id="reconciliation-table" style="overflow:auto; max-height: 320px;"></div>
+      </div>
+
+      <div class="card" style="margin-top: 14px;">
+        <h2>📋 Recorded stats validation</h2>
+        <div class="muted" style="font-size: 12px; margin: 0 0 6px;">
+          <b>${report.statsValidation.mismatches}</b> of ${report.statsValidation.fieldsCompared} end-of-run stat fields differ from the replay's
+          <span class="mono">info.players[].stats</span> (${report.statsValidation.schemaFields.join(", ") || "no fields"}).
+          ${report.statsValidation.complete ? "" : "<br/>The run did not reach the end of the replay, so recorded stats are expected to be ahead."}
+        </div>
+        <div id="stats-validation-table" style="overflow:auto; max-height: 320px;"></div>
+      </div>
+
       <div class="card" style="margin-top: 14px;">
         <h2>Players</h2>
         <div id="players-header-info" class="muted" style="font-size: 12px; margin: 0 0 10px;">
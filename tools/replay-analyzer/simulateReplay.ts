@@ -1,11 +1,18 @@
 import { performance } from "node:perf_hooks";
 import { createGameRunnerForReplay } from "./gameRunnerForReplay";
+import { attributeGcToTicks, observeGc } from "./gcTracker";
 import type { OpenFrontRuntime } from "./openfrontLoader";
-import type { TickSample } from "./types";
+import type { GcEvent, TickSample } from "./types";
+import { measureGameUpdate } from "./updateVolume";
+import type { UpdateVolume } from "./updateVolume";
 
 export type SimulationResult = {
   runner: any;
   elapsedMs: number;
+  // Turns executed, including fast-forwarded ones.
+  ticksRun: number;
+  // Set when stopOnHashMismatch ended the run early.
+  stoppedAtTurn: number | null;
   samples: TickSample[];
   tickExecutionMsValues: number[];
   totalIntents: number;
@@ -13,9 +20,13 @@ export type SimulationResult = {
   hashesCompared: number;
   hashMismatches: number;
   hashMismatchSamples: { tick: number; expected: number; actual: number }[];
+  hashesByTick: Map<number, number>;
   maxTilesBySmallID: Map<number, number>;
+  gcEvents: GcEvent[];
 };
 
+const mb = (bytes: number) => Math.round((bytes / (1024 * 1024)) * 100) / 100;
+
 function countHumans(openfront: OpenFrontRuntime, game: any): {
   aliveHumans: number;
   connectedAliveHumans: number;
@@ -37,15 +48,39 @@ export async function simulateReplay(opts: {
   expectedHashes: ReadonlyMap<number, number>;
   progressEvery: number;
   progressLog?: (msg: string) => void;
-  onAfterTick?: (arg: { game: any; turn: any; conquestEvents: any[]; isLast: boolean }) => void;
-  onGameInitialized?: (game: any) => void;
+  // Turns before this run bare: no hooks, samples or GC tracking (hash checks still apply).
+  fromTurn?: number | null;
+  // End the run after the first tick whose hash doesn't match the replay.
+  stopOnHashMismatch?: boolean;
+  // Serialize each measured tick's updates to record their volume; benchmark and baseline runs leave this off.
+  measureUpdateVolume?: boolean;
+  // Called once right before the first measured turn; trackers that patch the game belong here.
+  onMeasureStart?: (game: any) => void;
+  onBeforeTick?: (arg: { game: any; turn: any }) => void;
+  onAfterTick?: (arg: {
+    game: any;
+    turn: any;
+    conquestEvents: any[];
+    unitUpdates: any[];
+    hashUpdates: { tick: number; hash: number }[];
+    // Every update list of the tick, keyed by GameUpdateType value.
+    gameUpdates: Record<number, any[]>;
+    isLast: boolean;
+  }) => void;
 }): Promise<SimulationResult> {
   let lastTickExecutionMs = 0;
   let lastGameTick = 0;
   let hashesCompared = 0;
   let hashMismatches = 0;
   const hashMismatchSamples: { tick: number; expected: number; actual: number }[] = [];
+  const hashesByTick = new Map<number, number>();
   let conquestEvents: any[] = [];
+  let unitUpdates: any[] = [];
+  const noUpdateVolume: UpdateVolume = { count: 0, bytes: 0, tileUpdates: 0, byType: {} };
+  let lastUpdateVolume = noUpdateVolume;
+  let lastGameUpdate: any = null;
+  let hashUpdates: { tick: number; hash: number }[] = [];
+  let gameUpdates: Record<number, any[]> = {};
 
   let runner: any;
   runner = await createGameRunnerForReplay(
@@ -58,11 +93,16 @@ export async function simulateReplay(opts: {
       }
       lastTickExecutionMs = gu.tickExecutionDuration ?? 0;
       lastGameTick = gu.tick;
+      gameUpdates = gu.updates;
 
       const { GameUpdateType } = opts.openfront.GameUpdates as any;
       conquestEvents = (gu.updates[GameUpdateType.ConquestEvent] ?? []) as any[];
+      unitUpdates = (gu.updates[GameUpdateType.Unit] ?? []) as any[];
+      lastGameUpdate = gu;
+      hashUpdates = (gu.updates[GameUpdateType.Hash] ?? []) as { tick: number; hash: number }[];
 
-      for (const hu of gu.updates[GameUpdateType.Hash] ?? []) {
+      for (const hu of hashUpdates) {
+        hashesByTick.set(hu.tick, hu.hash);
         const expected = opts.expectedHashes.get(hu.tick);
         if (expected === undefined) continue;
         hashesCompared++;
@@ -77,17 +117,33 @@ export async function simulateReplay(opts: {
     opts.mapsRoot,
   );
 
-  opts.onGameInitialized?.(runner.game);
-
   const samples: TickSample[] = [];
   const tickExecutionMsValues: number[] = [];
   const maxTilesBySmallID = new Map<number, number>();
   let totalIntents = 0;
   const intentsByType: Record<string, number> = {};
 
+  let firstMeasured = 0;
+  if (opts.fromTurn != null) {
+    while (firstMeasured < opts.turnsToRun.length && opts.turnsToRun[firstMeasured].turnNumber < opts.fromTurn) {
+      runner.addTurn(opts.turnsToRun[firstMeasured]);
+      runner.executeNextTick();
+      firstMeasured++;
+    }
+    if (opts.progressEvery > 0) {
+      (opts.progressLog ?? console.log)(`fast-forwarded ${firstMeasured} turns to turn ${opts.fromTurn}`);
+    }
+  }
+  opts.onMeasureStart?.(runner.game);
+
+  const tickWindows = new Float64Array((opts.turnsToRun.length - firstMeasured) * 2);
+  const gc = observeGc();
   const startedAt = performance.now();
-  for (let i = 0; i < opts.turnsToRun.length; i++) {
+  let ticksRun = firstMeasured;
+  let stoppedAtTurn: number | null = null;
+  for (let i = firstMeasured; i < opts.turnsToRun.length; i++) {
     const turn = opts.turnsToRun[i];
+    const w = i - firstMeasured;
     totalIntents += turn.intents.length;
 
     for (const intent of turn.intents as any[]) {
@@ -95,10 +151,28 @@ export async function simulateReplay(opts: {
       intentsByType[t] = (intentsByType[t] ?? 0) + 1;
     }
 
+    opts.onBeforeTick?.({ game: runner.game, turn });
+
+    tickWindows[2 * w] = performance.now();
     runner.addTurn(turn);
     runner.executeNextTick();
-
-    opts.onAfterTick?.({ game: runner.game, turn, conquestEvents, isLast: i === opts.turnsToRun.length - 1 });
+    tickWindows[2 * w + 1] = performance.now();
+    ticksRun++;
+    lastUpdateVolume =
+      opts.measureUpdateVolume && lastGameUpdate
+        ? measureGameUpdate(lastGameUpdate, (opts.openfront.GameUpdates as any).GameUpdateType)
+        : noUpdateVolume;
+    const stopping = opts.stopOnHashMismatch === true && hashMismatches > 0;
+
+    opts.onAfterTick?.({
+      game: runner.game,
+      turn,
+      conquestEvents,
+      unitUpdates,
+      hashUpdates,
+      gameUpdates,
+      isLast: i === opts.turnsToRun.length - 1 || stopping,
+    });
 
     for (const p of runner.game.allPlayers()) {
       const tiles = p.numTilesOwned();
@@ -110,27 +184,55 @@ export async function simulateReplay(opts: {
 
     tickExecutionMsValues.push(lastTickExecutionMs);
     const humans = countHumans(opts.openfront, runner.game);
+    const mem = process.memoryUsage();
     samples.push({
       turnNumber: turn.turnNumber,
       gameTick: lastGameTick,
       tickExecutionMs: lastTickExecutionMs,
       intents: turn.intents.length,
       ...humans,
+      heapUsedMb: mb(mem.heapUsed),
+      heapTotalMb: mb(mem.heapTotal),
+      rssMb: mb(mem.rss),
+      gcMs: 0,
+      majorGc: false,
+      updates: lastUpdateVolume.count,
+      updateBytes: lastUpdateVolume.bytes,
+      tileUpdates: lastUpdateVolume.tileUpdates,
+      updatesByType: lastUpdateVolume.byType,
     });
 
-    if (i > 0 && opts.progressEvery > 0 && i % opts.progressEvery === 0) {
+    if (w > 0 && opts.progressEvery > 0 && w % opts.progressEvery === 0) {
       const elapsed = performance.now() - startedAt;
       const pct = ((i / opts.turnsToRun.length) * 100).toFixed(1);
       (opts.progressLog ?? console.log)(
         `progress: ${i}/${opts.turnsToRun.length} (${pct}%) | elapsed ${Math.round(elapsed)}ms | last tick ${lastTickExecutionMs.toFixed(3)}ms`,
       );
     }
+
+    if (stopping) {
+      stoppedAtTurn = turn.turnNumber;
+      break;
+    }
   }
 
   const elapsedMs = performance.now() - startedAt;
+
+  const gcAttribution = attributeGcToTicks(
+    await gc.stop(),
+    tickWindows,
+    samples.map((s) => s.turnNumber),
+  );
+  for (let i = 0; i < samples.length; i++) {
+    samples[i].gcMs = Math.round(gcAttribution.gcMsByTick[i] * 1000) / 1000;
+    samples[i].majorGc = gcAttribution.majorGcByTick[i] === 1;
+  }
+
   return {
     runner,
     elapsedMs,
+    ticksRun,
+    stoppedAtTurn,
     samples,
     tickExecutionMsValues,
     totalIntents,
@@ -138,6 +240,8 @@ export async function simulateReplay(opts: {
     hashesCompared,
     hashMismatches,
     hashMismatchSamples,
+    hashesByTick,
     maxTilesBySmallID,
+    gcEvents: gcAttribution.events,
   };
 }
@@ -0,0 +1,192 @@
+import type { SlowTickThreshold } from "./args";
+import type { SlowTick, SlowTickReport, TickSample } from "./types";
+import { asBigInt, percentile } from "./utils";
+
+type TickContext = {
+  intents: any[];
+  players: number;
+  conquests: { conquerorId: string; conqueredId: string; gold: bigint }[] | null;
+  newUnits: { unitType: string; ownerSmallID: number }[] | null;
+};
+
+export type SlowTickDetector = {
+  init: (game: any) => void;
+  afterTick: (game: any, turn: any, conquestEvents: any[], unitUpdates: any[]) => void;
+  buildReport: (samples: TickSample[]) => SlowTickReport;
+};
+
+// Sorted insert/remove keeps the rolling median O(window) per tick instead of a sort per tick.
+function insertSorted(sorted: number[], value: number) {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  sorted.splice(lo, 0, value);
+}
+
+function removeSorted(sorted: number[], value: number) {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  if (sorted[lo] === value) sorted.splice(lo, 1);
+}
+
+function median(sorted: number[]): number {
+  const mid = sorted.length >>> 1;
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Records what happened on every tick (intents, conquests, new units, live players) so ticks over
+ * the threshold can be explained once the run's timings are known.
+ */
+export function createSlowTickDetector(opts: {
+  threshold: SlowTickThreshold;
+  rollingWindow: number;
+  maxTicks: number;
+}): SlowTickDetector {
+  const contexts: TickContext[] = [];
+  const seenUnitIds = new Set<number>();
+  let lastGame: any = null;
+
+  function thresholdsFor(values: number[]): { thresholdMs: number | null; perTick: Float64Array } {
+    const perTick = new Float64Array(values.length).fill(Infinity);
+    if (opts.threshold.kind === "percentile") {
+      const t = percentile(values, opts.threshold.p / 100);
+      perTick.fill(t);
+      return { thresholdMs: t, perTick };
+    }
+    // Only the preceding ticks count, so a burst of slow ticks doesn't raise its own bar.
+    const minHistory = Math.min(opts.rollingWindow, 20);
+    const window: number[] = [];
+    for (let i = 0; i < values.length; i++) {
+      if (window.length >= minHistory) {
+        const m = median(window);
+        if (m > 0) perTick[i] = m * opts.threshold.factor;
+      }
+      insertSorted(window, values[i]);
+      if (i >= opts.rollingWindow) removeSorted(window, values[i - opts.rollingWindow]);
+    }
+    return { thresholdMs: null, perTick };
+  }
+
+  function playerLookup(game: any) {
+    const byClientId = new Map<string, string>();
+    const byId = new Map<string, string>();
+    const bySmallId = new Map<number, string>();
+    for (const p of game?.allPlayers?.() ?? []) {
+      const name = String(p.displayName?.() ?? p.name?.() ?? p.id());
+      const cid = p.clientID?.();
+      if (cid) byClientId.set(cid, name);
+      byId.set(String(p.id()), name);
+      bySmallId.set(p.smallID(), name);
+    }
+    return { byClientId, byId, bySmallId };
+  }
+
+  return {
+    // Units that exist before the first measured tick (e.g. with --fromTurn) aren't new.
+    init: (game: any) => {
+      for (const u of game.units?.() ?? []) {
+        const id = Number(u?.id?.());
+        if (Number.isFinite(id)) seenUnitIds.add(id);
+      }
+    },
+    afterTick: (game: any, turn: any, conquestEvents: any[], unitUpdates: any[]) => {
+      lastGame = game;
+
+      let newUnits: TickContext["newUnits"] = null;
+      for (const u of unitUpdates ?? []) {
+        const id = Number(u?.id);
+        if (!Number.isFinite(id) || seenUnitIds.has(id)) continue;
+        seenUnitIds.add(id);
+        (newUnits ??= []).push({ unitType: String(u.unitType), ownerSmallID: Number(u.ownerID) });
+      }
+
+      const conquests = (conquestEvents ?? []).map((cu: any) => ({
+        conquerorId: String(cu.conquerorId ?? ""),
+        conqueredId: String(cu.conqueredId ?? ""),
+        gold: asBigInt(cu.gold) ?? 0n,
+      }));
+
+      contexts.push({
+        intents: turn.intents ?? [],
+        players: game.players().length,
+        conquests: conquests.length > 0 ? conquests : null,
+        newUnits,
+      });
+    },
+    buildReport: (samples: TickSample[]): SlowTickReport => {
+      const values = samples.map((s) => s.tickExecutionMs);
+      const { thresholdMs, perTick } = thresholdsFor(values);
+
+      const flagged: number[] = [];
+      for (let i = 0; i < samples.length; i++) {
+        if (values[i] > perTick[i]) flagged.push(i);
+      }
+      flagged.sort((a, b) => values[b] - values[a] || a - b);
+
+      const names = playerLookup(lastGame);
+      const ticks: SlowTick[] = flagged.slice(0, opts.maxTicks).map((i) => {
+        const ctx = contexts[i];
+
+        const intentCounts = new Map<string, SlowTick["intents"][number]>();
+        for (const intent of ctx?.intents ?? []) {
+          const type = String(intent?.type ?? "unknown");
+          const clientID = typeof intent?.clientID === "string" ? intent.clientID : null;
+          const key = `${type}\u0000${clientID ?? ""}`;
+          const entry = intentCounts.get(key);
+          if (entry) entry.count++;
+          else {
+            intentCounts.set(key, {
+              type,
+              clientID,
+              displayName: clientID ? (names.byClientId.get(clientID) ?? null) : null,
+              count: 1,
+            });
+          }
+        }
+
+        const unitCounts = new Map<string, SlowTick["newUnits"][number]>();
+        for (const u of ctx?.newUnits ?? []) {
+          const owner = names.bySmallId.get(u.ownerSmallID) ?? String(u.ownerSmallID);
+          const key = `${u.unitType}\u0000${owner}`;
+          const entry = unitCounts.get(key);
+          if (entry) entry.count++;
+          else unitCounts.set(key, { unitType: u.unitType, owner, count: 1 });
+        }
+
+        return {
+          turnNumber: samples[i].turnNumber,
+          tickExecutionMs: values[i],
+          thresholdMs: perTick[i],
+          players: ctx?.players ?? 0,
+          intents: [...intentCounts.values()].sort((a, b) => b.count - a.count || a.type.localeCompare(b.type)),
+          conquests: (ctx?.conquests ?? []).map((c) => ({
+            conqueror: names.byId.get(c.conquerorId) ?? c.conquerorId,
+            conquered: names.byId.get(c.conqueredId) ?? c.conqueredId,
+            gold: c.gold.toString(),
+          })),
+          newUnits: [...unitCounts.values()].sort((a, b) => b.count - a.count || a.unitType.localeCompare(b.unitType)),
+        };
+      });
+
+      return {
+        threshold:
+          opts.threshold.kind === "percentile"
+            ? `p${opts.threshold.p}`
+            : `${opts.threshold.factor}x rolling median (${opts.rollingWindow} ticks)`,
+        thresholdMs,
+        total: flagged.length,
+        ticks,
+      };
+    },
+  };
+}
@@ -0,0 +1,144 @@
+import type { StandingsPlayer, StandingsReport, StandingsWinner } from "./types";
+
+type Tracked = {
+  player: any;
+  wasAlive: boolean;
+  eliminatedTurn: number | null;
+  eliminatedBy: any;
+  peakRank: number;
+  peakRankTurn: number;
+  ranks: (number | null)[];
+};
+
+export type StandingsTracker = {
+  init: (game: any) => void;
+  afterTick: (game: any, turnNumber: number, conquestEvents: any[]) => void;
+  buildReport: (opts: { maxTilesBySmallID: ReadonlyMap<number, number>; record: any; complete: boolean }) => StandingsReport;
+};
+
+// GameRecord winners are ["player", clientID] or ["team", teamName, ...clientIDs].
+function recordedWinner(record: any, nameByClientId: ReadonlyMap<string, string>): StandingsWinner | null {
+  const winner = record?.info?.winner;
+  if (!Array.isArray(winner) || typeof winner[1] !== "string") return null;
+  if (winner[0] === "team") return { kind: "team", id: winner[1], displayName: winner[1] };
+  return { kind: "player", id: winner[1], displayName: nameByClientId.get(winner[1]) ?? winner[1] };
+}
+
+// In team games the winner is the team of the best placed player.
+function reconstructedWinner(first: StandingsPlayer | undefined, recorded: StandingsWinner | null): StandingsWinner | null {
+  if (!first) return null;
+  if (recorded?.kind === "team" && first.team !== null) return { kind: "team", id: String(first.team), displayName: String(first.team) };
+  return first.clientID ? { kind: "player", id: first.clientID, displayName: first.displayName } : null;
+}
+
+/**
+ * Ranks players by tiles every few turns and records when each one is eliminated and by whom,
+ * taken from the ConquestEvent updates the engine emits after the tick.
+ */
+export function createStandingsTracker(opts: { sampleEveryTurns: number; maxRankedPlayers: number }): StandingsTracker {
+  const tracked = new Map<number, Tracked>();
+  const turns: number[] = [];
+  // Conqueror of each conquered player, by the conquered player's id. The event can come a few
+  // ticks before or after the player stops being alive.
+  const conqueredBy = new Map<string, any>();
+
+  function track(p: any): Tracked {
+    let t = tracked.get(p.smallID());
+    if (!t) {
+      // Players that join later have no rank for the samples before them.
+      t = { player: p, wasAlive: false, eliminatedTurn: null, eliminatedBy: null, peakRank: Infinity, peakRankTurn: 0, ranks: turns.map(() => null) };
+      tracked.set(p.smallID(), t);
+    }
+    return t;
+  }
+
+  return {
+    init: (game: any) => {
+      for (const p of game.allPlayers()) track(p).wasAlive = p.isAlive();
+    },
+    afterTick: (game: any, turnNumber: number, conquestEvents: any[]) => {
+      if (conquestEvents?.length) {
+        const byId = new Map<string, any>(game.allPlayers().map((p: any) => [String(p.id?.()), p]));
+        for (const cu of conquestEvents) {
+          const conqueror = byId.get(String(cu?.conquerorId ?? ""));
+          const conqueredId = String(cu?.conqueredId ?? "");
+          if (!conqueror || conqueredBy.has(conqueredId)) continue;
+          conqueredBy.set(conqueredId, conqueror);
+          const t = tracked.get(byId.get(conqueredId)?.smallID());
+          if (t && t.eliminatedTurn !== null && t.eliminatedBy === null) t.eliminatedBy = conqueror;
+        }
+      }
+
+      const alive: Tracked[] = [];
+      for (const p of game.allPlayers()) {
+        const t = track(p);
+        if (p.isAlive()) {
+          t.wasAlive = true;
+          alive.push(t);
+        } else if (t.wasAlive && t.eliminatedTurn === null) {
+          t.eliminatedTurn = turnNumber;
+          t.eliminatedBy = conqueredBy.get(String(p.id?.())) ?? null;
+        }
+      }
+
+      if (turnNumber % opts.sampleEveryTurns !== 0) return;
+      turns.push(turnNumber);
+      alive.sort((a, b) => b.player.numTilesOwned() - a.player.numTilesOwned());
+      alive.forEach((t, i) => {
+        t.ranks.push(i + 1);
+        if (i + 1 < t.peakRank) {
+          t.peakRank = i + 1;
+          t.peakRankTurn = turnNumber;
+        }
+      });
+      for (const t of tracked.values()) {
+        if (t.ranks.length < turns.length) t.ranks.push(null);
+      }
+    },
+    buildReport: ({ maxTilesBySmallID, record, complete }) => {
+      const all = [...tracked.values()].filter((t) => t.wasAlive);
+      const tiles = (t: Tracked) => t.player.numTilesOwned();
+      const maxTiles = (t: Tracked) => maxTilesBySmallID.get(t.player.smallID()) ?? tiles(t);
+      all.sort((a, b) => {
+        if (a.eliminatedTurn === null || b.eliminatedTurn === null) {
+          if (a.eliminatedTurn !== b.eliminatedTurn) return a.eliminatedTurn === null ? -1 : 1;
+          return tiles(b) - tiles(a) || maxTiles(b) - maxTiles(a);
+        }
+        return b.eliminatedTurn - a.eliminatedTurn || maxTiles(b) - maxTiles(a);
+      });
+
+      const players: StandingsPlayer[] = all.map((t, i) => ({
+        smallID: t.player.smallID(),
+        clientID: t.player.clientID?.() ?? null,
+        displayName: t.player.displayName(),
+        type: String(t.player.type?.() ?? "unknown"),
+        team: t.player.team?.() ?? null,
+        placement: i + 1,
+        alive: t.eliminatedTurn === null,
+        eliminatedTurn: t.eliminatedTurn,
+        eliminatedBySmallID: t.eliminatedBy?.smallID() ?? null,
+        eliminatedByName: t.eliminatedBy?.displayName() ?? null,
+        peakRank: Number.isFinite(t.peakRank) ? t.peakRank : null,
+        peakRankTurn: Number.isFinite(t.peakRank) ? t.peakRankTurn : null,
+        finalTiles: tiles(t),
+        maxTiles: maxTiles(t),
+      }));
+
+      const ranksBySmallID: Record<number, (number | null)[]> = {};
+      for (const t of all.slice(0, opts.maxRankedPlayers)) ranksBySmallID[t.player.smallID()] = t.ranks;
+
+      const nameByClientId = new Map(players.filter((p) => p.clientID).map((p) => [p.clientID!, p.displayName]));
+      const recorded = recordedWinner(record, nameByClientId);
+      const reconstructed = reconstructedWinner(players[0], recorded);
+
+      return {
+        players,
+        turns,
+        ranksBySmallID,
+        recordedWinner: recorded,
+        reconstructedWinner: reconstructed,
+        winnerMatches: recorded && complete ? reconstructed?.kind === recorded.kind && reconstructed.id === recorded.id : null,
+      };
+    },
+  };
+}
@@ -0,0 +1,171 @@
+import { readGoldStatsForClient } from "./economyTracker";
+import type {
+  EconomyTotals,
+  GoldStatCategory,
+  StatsFieldMismatch,
+  StatsReconciliationReport,
+  StatsReconciliationRow,
+  StatsValidationPlayer,
+  StatsValidationReport,
+} from "./types";
+import { asBigInt } from "./utils";
+
+const categories: GoldStatCategory[] = ["work", "war", "trade", "steal", "train"];
+
+// Economy tracker totals that are fed straight from one stats category.
+const analyzerTotalByCategory: Partial<Record<GoldStatCategory, keyof EconomyTotals>> = {
+  war: "earnedConquer",
+  trade: "earnedTrade",
+  train: "earnedTrain",
+};
+
+function diffPct(actual: bigint, expected: bigint): number {
+  const diff = Number(actual - expected);
+  if (diff === 0) return 0;
+  return (Math.abs(diff) / Math.max(1, Math.abs(Number(expected)))) * 100;
+}
+
+const gold = (v: bigint) => (Number(v) / 1000).toFixed(1);
+
+/**
+ * Compares the engine's end-of-run gold stats per category with the ones recorded in the replay
+ * (engine drift) and with the economy tracker's own totals (analyzer accounting).
+ */
+export function reconcileGoldStats(opts: {
+  game: any;
+  record: any;
+  economyTotalsByClientId: ReadonlyMap<string, EconomyTotals>;
+  tolerancePct: number;
+  complete: boolean;
+  // Tracker totals only cover the measured turns, so they're compared only when that's all of them.
+  compareAnalyzer: boolean;
+}): StatsReconciliationReport {
+  const simulatedStats = opts.game.stats().stats();
+  const recordedByClientId = new Map<string, any>();
+  for (const p of (opts.record?.info?.players as any[]) ?? []) {
+    if (typeof p?.clientID === "string" && Array.isArray(p?.stats?.gold)) recordedByClientId.set(p.clientID, p.stats);
+  }
+
+  const rows: StatsReconciliationRow[] = [];
+  let playersCompared = 0;
+  for (const p of opts.game.allPlayers()) {
+    const cid = p.clientID();
+    if (!cid) continue;
+    playersCompared++;
+    const simulated = readGoldStatsForClient(simulatedStats, cid);
+    const recordedStats = recordedByClientId.get(cid);
+    const recorded = recordedStats ? readGoldStatsForClient({ [cid]: recordedStats }, cid) : null;
+    const totals = opts.compareAnalyzer ? opts.economyTotalsByClientId.get(cid) : undefined;
+
+    for (const category of categories) {
+      const totalKey = analyzerTotalByCategory[category];
+      const analyzer = totals && totalKey ? totals[totalKey] : null;
+      const recordedDiffPct = recorded ? diffPct(simulated[category], recorded[category]) : null;
+      const analyzerDiffPct = analyzer !== null ? diffPct(analyzer, simulated[category]) : null;
+      rows.push({
+        clientID: cid,
+        displayName: p.displayName(),
+        category,
+        recorded: recorded ? gold(recorded[category]) : null,
+        simulated: gold(simulated[category]),
+        analyzer: analyzer !== null ? gold(analyzer) : null,
+        recordedDiffPct,
+        analyzerDiffPct,
+        engineDrift: recordedDiffPct !== null && recordedDiffPct > opts.tolerancePct,
+        accountingMismatch: analyzerDiffPct !== null && analyzerDiffPct > opts.tolerancePct,
+      });
+    }
+  }
+
+  return {
+    tolerancePct: opts.tolerancePct,
+    complete: opts.complete,
+    playersCompared,
+    engineDrift: rows.filter((r) => r.engineDrift).length,
+    accountingMismatches: rows.filter((r) => r.accountingMismatch).length,
+    rows,
+  };
+}
+
+// Leaf values by path, e.g. "boats.trade[1]" -> 3n. Non-numeric leaves are kept as strings.
+function flattenStats(value: unknown, prefix: string, out: Map<string, bigint | string>) {
+  if (value === null || value === undefined) return;
+  if (Array.isArray(value)) {
+    value.forEach((v, i) => flattenStats(v, `${prefix}[${i}]`, out));
+    return;
+  }
+  if (typeof value === "object") {
+    for (const [k, v] of Object.entries(value)) flattenStats(v, prefix ? `${prefix}.${k}` : k, out);
+    return;
+  }
+  out.set(prefix, asBigInt(value) ?? String(value));
+}
+
+/**
+ * Compares every field of the engine's end-of-run PlayerStats with the stats recorded in the replay.
+ * A field missing on one side counts as zero; stat arrays are often shorter than the schema allows.
+ */
+export function validateRecordedStats(opts: {
+  game: any;
+  record: any;
+  statsSchema: { shape?: Record<string, unknown> } | undefined;
+  complete: boolean;
+}): StatsValidationReport {
+  const simulatedStats = opts.game.stats().stats() ?? {};
+  const recordedByClientId = new Map<string, any>();
+  for (const p of (opts.record?.info?.players as any[]) ?? []) {
+    if (typeof p?.clientID === "string") recordedByClientId.set(p.clientID, p.stats ?? null);
+  }
+
+  const fieldSet = new Set<string>(Object.keys(opts.statsSchema?.shape ?? {}));
+  if (fieldSet.size === 0) {
+    for (const stats of [...Object.values(simulatedStats), ...recordedByClientId.values()]) {
+      for (const key of Object.keys((stats as object | null) ?? {})) fieldSet.add(key);
+    }
+  }
+  const schemaFields = [...fieldSet].sort();
+
+  const players: StatsValidationPlayer[] = [];
+  for (const p of opts.game.allPlayers()) {
+    const cid = p.clientID();
+    if (!cid || !recordedByClientId.has(cid)) continue;
+    const recordedStats = recordedByClientId.get(cid);
+    const simulated = new Map<string, bigint | string>();
+    const recorded = new Map<string, bigint | string>();
+    for (const field of schemaFields) {
+      flattenStats((simulatedStats as any)[cid]?.[field], field, simulated);
+      flattenStats(recordedStats?.[field], field, recorded);
+    }
+
+    const mismatches: StatsFieldMismatch[] = [];
+    let fieldsCompared = 0;
+    for (const path of new Set([...simulated.keys(), ...recorded.keys()])) {
+      fieldsCompared++;
+      const sim = simulated.get(path) ?? 0n;
+      const rec = recorded.get(path) ?? 0n;
+      if (sim === rec) continue;
+      mismatches.push({
+        path,
+        recorded: recorded.has(path) ? String(rec) : null,
+        simulated: simulated.has(path) ? String(sim) : null,
+      });
+    }
+    players.push({
+      clientID: cid,
+      displayName: p.displayName(),
+      missingInRecord: !recordedStats,
+      fieldsCompared,
+      matching: fieldsCompared - mismatches.length,
+      mismatching: mismatches.length,
+      mismatches: mismatches.sort((a, b) => a.path.localeCompare(b.path)).slice(0, 200),
+    });
+  }
+
+  return {
+    complete: opts.complete,
+    schemaFields,
+    fieldsCompared: players.reduce((sum, p) => sum + p.fieldsCompared, 0),
+    mismatches: players.reduce((sum, p) => sum + p.mismatching, 0),
+    players: players.sort((a, b) => b.mismatching - a.mismatching || a.displayName.localeCompare(b.displayName)),
+  };
+}
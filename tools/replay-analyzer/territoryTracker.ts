@@ -0,0 +1,135 @@
+import type { TerritoryReport, TerritorySnapshot } from "./types";
+
+export type TerritoryTracker = {
+  init: (game: any) => void;
+  afterTick: (game: any, turnNumber: number, isLast: boolean) => void;
+  buildReport: (opts: { mapData: any }) => Promise<TerritoryReport | null>;
+};
+
+// Terrain codes stored per cell; the renderer maps them to colors.
+const terrainOcean = 0;
+const terrainLake = 1;
+const terrainPlains = 2;
+const terrainHighland = 3;
+const terrainMountain = 4;
+
+// Run-length encodes `cells` as LEB128 varint (value, run) pairs, base64 encoded.
+function encodeRle(cells: ArrayLike<number>): string {
+  const bytes: number[] = [];
+  const varint = (n: number) => {
+    while (n >= 0x80) {
+      bytes.push((n & 0x7f) | 0x80);
+      n >>>= 7;
+    }
+    bytes.push(n);
+  };
+  let i = 0;
+  while (i < cells.length) {
+    const value = cells[i];
+    let run = 1;
+    while (i + run < cells.length && cells[i + run] === value) run++;
+    varint(value);
+    varint(run);
+    i += run;
+  }
+  return Buffer.from(bytes).toString("base64");
+}
+
+// Map tiles are one byte each: bit 7 land, bit 5 ocean, bits 0-4 magnitude.
+function terrainCode(byte: number): number {
+  if (byte & 0x80) {
+    const magnitude = byte & 0x1f;
+    return magnitude < 10 ? terrainPlains : magnitude < 20 ? terrainHighland : terrainMountain;
+  }
+  return byte & 0x20 ? terrainOcean : terrainLake;
+}
+
+// Compact games run on the 4x map, and older map.bin files start with a 4 byte size header.
+async function loadTerrainBytes(mapData: any, width: number, height: number): Promise<Uint8Array | null> {
+  for (const loader of [mapData?.mapBin, mapData?.map4xBin]) {
+    if (typeof loader !== "function") continue;
+    let bytes: Uint8Array;
+    try {
+      bytes = await loader();
+    } catch {
+      continue;
+    }
+    if (bytes.length === width * height) return bytes;
+    if (bytes.length === width * height + 4) return bytes.subarray(4);
+  }
+  return null;
+}
+
+/**
+ * Samples tile ownership every few turns on a grid of at most `maxCells` cells (every `stride`th
+ * tile in both directions). Owners are stored as indexes into a palette of players, and each
+ * snapshot is run-length encoded over the whole grid in row-major order, so runs cross row ends.
+ */
+export function createTerritoryTracker(opts: { sampleEveryTurns: number; maxCells: number }): TerritoryTracker {
+  const snapshots: TerritorySnapshot[] = [];
+  // Palette index per smallID; 0 is unowned.
+  const paletteIndex = new Map<number, number>();
+  const palette: TerritoryReport["palette"] = [];
+  let width = 0;
+  let height = 0;
+  let stride = 1;
+  let gridWidth = 0;
+  let gridHeight = 0;
+  let lastTurn = -1;
+
+  function indexFor(game: any, smallID: number): number {
+    if (smallID === 0) return 0;
+    let index = paletteIndex.get(smallID);
+    if (index === undefined) {
+      const player = game.playerBySmallID?.(smallID);
+      palette.push({ smallID, displayName: player?.displayName?.() ?? `#${smallID}` });
+      index = palette.length;
+      paletteIndex.set(smallID, index);
+    }
+    return index;
+  }
+
+  function snapshot(game: any, turnNumber: number) {
+    const cells = new Uint32Array(gridWidth * gridHeight);
+    const ownerID =
+      typeof game.ownerID === "function"
+        ? (tile: number) => game.ownerID(tile)
+        : (tile: number) => game.owner(tile)?.smallID?.() ?? 0;
+    let i = 0;
+    for (let gy = 0; gy < gridHeight; gy++) {
+      for (let gx = 0; gx < gridWidth; gx++) {
+        cells[i++] = indexFor(game, ownerID(game.ref(gx * stride, gy * stride)));
+      }
+    }
+    snapshots.push({ turn: turnNumber, owners: encodeRle(cells) });
+    lastTurn = turnNumber;
+  }
+
+  return {
+    init: (game: any) => {
+      width = game.width();
+      height = game.height();
+      stride = Math.max(1, Math.ceil(Math.sqrt((width * height) / opts.maxCells)));
+      gridWidth = Math.ceil(width / stride);
+      gridHeight = Math.ceil(height / stride);
+    },
+    afterTick: (game: any, turnNumber: number, isLast: boolean) => {
+      if (gridWidth === 0 || turnNumber === lastTurn) return;
+      if (turnNumber % opts.sampleEveryTurns === 0 || isLast) snapshot(game, turnNumber);
+    },
+    buildReport: async ({ mapData }) => {
+      if (gridWidth === 0) return null;
+      const bytes = await loadTerrainBytes(mapData, width, height);
+      let terrain: string | null = null;
+      if (bytes) {
+        const cells = new Uint8Array(gridWidth * gridHeight);
+        let i = 0;
+        for (let gy = 0; gy < gridHeight; gy++) {
+          for (let gx = 0; gx < gridWidth; gx++) cells[i++] = terrainCode(bytes[gy * stride * width + gx * stride]);
+        }
+        terrain = encodeRle(cells);
+      }
+      return { width, height, stride, gridWidth, gridHeight, sampleEveryTurns: opts.sampleEveryTurns, terrain, palette, snapshots };
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import type { Instrumentation } from "./instrumentation";
+import type { TradeRouteReport, TradeShipEntry } from "./types";
+
+type OpenShip = {
+  entry: TradeShipEntry;
+  exec: any;
+  srcPort: any;
+  dstPort: any;
+  // Any payout, including ones to a later owner of either port.
+  paid: boolean;
+};
+
+export type TradeRouteTracker = {
+  beforeTick: (turn: any) => void;
+  buildReport: () => TradeRouteReport;
+};
+
+const unitID = (u: any) => (typeof u?.id === "function" ? Number(u.id()) : -1);
+
+/**
+ * Follows every TradeShipExecution from the tick its ship is built to the tick it ends. Payouts are
+ * the `addGold` calls made while the execution ticks, split by who received them: the source port
+ * owner, the destination port owner (both as recorded at departure), or whoever captured the ship
+ * on the way. Payouts to a player who took over a port since are not credited to either side.
+ */
+export function createTradeRouteTracker(opts: { instrumentation: Instrumentation; maxShips: number }): TradeRouteTracker {
+  const ships: TradeShipEntry[] = [];
+  const openByExecution = new Map<any, OpenShip>();
+  const droppedExecutions = new WeakSet<object>();
+  let turnNumber = 0;
+  let dropped = 0;
+  let current: OpenShip | null = null;
+
+  function open(exec: any): OpenShip | null {
+    const srcPort = exec.srcPort;
+    const dstPort = exec._dstPort ?? exec.dstPort;
+    const srcOwner = srcPort?.owner?.() ?? exec.origOwner;
+    const dstOwner = dstPort?.owner?.();
+    if (!srcOwner || !dstOwner) return null;
+    if (ships.length >= opts.maxShips) {
+      dropped++;
+      droppedExecutions.add(exec);
+      return null;
+    }
+
+    const entry: TradeShipEntry = {
+      srcPortID: unitID(srcPort),
+      dstPortID: unitID(dstPort),
+      srcOwnerSmallID: srcOwner.smallID(),
+      srcOwnerName: srcOwner.displayName(),
+      dstOwnerSmallID: dstOwner.smallID(),
+      dstOwnerName: dstOwner.displayName(),
+      startTurn: turnNumber,
+      endTurn: null,
+      tilesTraveled: 0,
+      outcome: "sailing",
+      captorSmallID: null,
+      captorName: null,
+      goldToSource: 0,
+      goldToDestination: 0,
+      goldToCaptor: 0,
+    };
+    ships.push(entry);
+    const rec = { entry, exec, srcPort, dstPort, paid: false };
+    openByExecution.set(exec, rec);
+    return rec;
+  }
+
+  function refresh(rec: OpenShip) {
+    const { exec } = rec;
+    rec.entry.tilesTraveled = Number(exec.tilesTraveled) || rec.entry.tilesTraveled;
+    const owner = exec.tradeShip?.owner?.();
+    if (exec.wasCaptured && owner && rec.entry.captorSmallID === null) {
+      rec.entry.captorSmallID = owner.smallID();
+      rec.entry.captorName = owner.displayName();
+    }
+  }
+
+  const { instrumentation } = opts;
+  instrumentation.probe("TradeShipExecution.tick", {
+    report: false,
+    attributeCaller: false,
+    observe: (exec) => {
+      current = openByExecution.get(exec) ?? null;
+    },
+    after: (exec) => {
+      let rec = current;
+      current = null;
+      // The ship only exists once the execution found a spawn tile.
+      if (!rec && exec.tradeShip && !droppedExecutions.has(exec)) rec = open(exec);
+      if (!rec) return;
+      refresh(rec);
+      if (exec.isActive?.() !== false) return;
+      rec.entry.outcome = !rec.paid ? "sunk" : rec.entry.captorSmallID !== null ? "captured" : "arrived";
+      rec.entry.endTurn = turnNumber;
+      openByExecution.delete(exec);
+    },
+  });
+  instrumentation.probe("PlayerImpl.addGold", {
+    report: false,
+    attributeCaller: false,
+    observe: (self, [gold]) => {
+      if (!current) return;
+      // A captured ship can arrive on the tick it changes hands.
+      refresh(current);
+      const amount = Number(gold) || 0;
+      const { entry } = current;
+      const id = self.smallID();
+      if (amount > 0) current.paid = true;
+      if (entry.captorSmallID !== null && id === entry.captorSmallID) entry.goldToCaptor += amount;
+      else if (id === entry.srcOwnerSmallID) entry.goldToSource += amount;
+      else if (id === entry.dstOwnerSmallID) entry.goldToDestination += amount;
+    },
+  });
+
+  return {
+    beforeTick: (turn: any) => {
+      turnNumber = turn.turnNumber;
+    },
+    buildReport: () => ({ ships, dropped }),
+  };
+}
@@ -0,0 +1,99 @@
+import fs from "node:fs";
+import type inspector from "node:inspector";
+import path from "node:path";
+import type { TurnRange } from "./args";
+
+// Same-thread inspector sessions answer synchronously, which lets us profile from inside the tick loop.
+function postSync<T>(session: inspector.Session, method: string, params: Record<string, any> = {}): T {
+  let done = false;
+  let error: Error | null = null;
+  let value: T | undefined;
+  session.post(method, params, (err, result) => {
+    done = true;
+    error = err;
+    value = result as T;
+  });
+  if (!done) throw new Error(`inspector ${method} did not complete synchronously`);
+  if (error) throw error;
+  return value as T;
+}
+
+export type TurnProfiler = {
+  beforeTick: (turnNumber: number) => void;
+  afterTick: (turnNumber: number) => void;
+  // Stops a range that is still open (e.g. cut short by --maxTurns) and writes pending profiles.
+  finish: () => Promise<{ label: string; outPath: string; profile: any }[]>;
+};
+
+/**
+ * Starts/stops the V8 CPU profiler around specific turn ranges and takes heap snapshots after
+ * specific turns, using the caller's inspector session.
+ */
+export function createTurnProfiler(opts: {
+  session: inspector.Session;
+  profileTurns: TurnRange[];
+  heapSnapshotAt: number[];
+  outDir: string;
+  baseName: string;
+  log?: (msg: string) => void;
+}): TurnProfiler {
+  const log = opts.log ?? (() => {});
+  const pending: { label: string; outPath: string; profile: any }[] = [];
+  const snapshotTurns = new Set(opts.heapSnapshotAt);
+  let active: TurnRange | null = null;
+  const started = new Set<TurnRange>();
+
+  if (opts.profileTurns.length > 0) {
+    postSync(opts.session, "Profiler.enable");
+  }
+
+  function stopActive() {
+    if (!active) return;
+    const { profile } = postSync<{ profile: any }>(opts.session, "Profiler.stop");
+    pending.push({
+      label: `turns ${active.start}-${active.end}`,
+      outPath: path.join(opts.outDir, `${opts.baseName}.turns-${active.start}-${active.end}.cpuprofile`),
+      profile,
+    });
+    active = null;
+  }
+
+  function takeHeapSnapshot(turnNumber: number) {
+    const outPath = path.join(opts.outDir, `${opts.baseName}.turn-${turnNumber}.heapsnapshot`);
+    const fd = fs.openSync(outPath, "w");
+    const onChunk = (m: { params: { chunk: string } }) => fs.writeSync(fd, m.params.chunk);
+    opts.session.on("HeapProfiler.addHeapSnapshotChunk", onChunk);
+    try {
+      postSync(opts.session, "HeapProfiler.takeHeapSnapshot");
+    } finally {
+      opts.session.removeListener("HeapProfiler.addHeapSnapshotChunk", onChunk);
+      fs.closeSync(fd);
+    }
+    log(`heap snapshot: ${outPath}`);
+  }
+
+  return {
+    beforeTick: (turnNumber: number) => {
+      if (active) return;
+      // The first simulated turn of a range may come after its start (e.g. with --fromTurn).
+      const range = opts.profileTurns.find((r) => !started.has(r) && r.start <= turnNumber && turnNumber <= r.end);
+      if (!range) return;
+      started.add(range);
+      if (turnNumber !== range.start) log(`profileTurns ${range.start}:${range.end} starts at turn ${turnNumber}`);
+      postSync(opts.session, "Profiler.start");
+      active = { start: turnNumber, end: range.end };
+    },
+    afterTick: (turnNumber: number) => {
+      if (active && turnNumber >= active.end) stopActive();
+      if (snapshotTurns.has(turnNumber)) takeHeapSnapshot(turnNumber);
+    },
+    finish: async () => {
+      stopActive();
+      for (const { outPath, profile } of pending) {
+        await fs.promises.writeFile(outPath, JSON.stringify(profile), "utf8");
+        log(`cpu profile: ${outPath}`);
+      }
+      return pending.splice(0);
+    },
+  };
+}
@@ -6,6 +6,54 @@ export type TickSample = {
   aliveHumans: number;
   connectedAliveHumans: number;
   spawnedHumans: number;
+  heapUsedMb: number;
+  heapTotalMb: number;
+  rssMb: number;
+  // GC time overlapping this tick's executeNextTick call.
+  gcMs: number;
+  majorGc: boolean;
+  // GameUpdates emitted by this tick (what the worker would post to the main thread).
+  updates: number;
+  // Approximate serialized size: JSON of the update lists plus the packed tile buffer.
+  updateBytes: number;
+  tileUpdates: number;
+  // Non-zero counts only, keyed by GameUpdateType name.
+  updatesByType: Record<string, number>;
+};
+
+export type GcEvent = {
+  kind: string;
+  durationMs: number;
+  // Turn whose tick the GC started in; null when it ran between ticks (e.g. in trackers).
+  turnNumber: number | null;
+};
+
+export type GcSummary = {
+  count: number;
+  totalMs: number;
+  byKind: Record<string, { count: number; totalMs: number }>;
+  ticksWithMajorGc: number;
+  events: GcEvent[];
+};
+
+export type SlowTick = {
+  turnNumber: number;
+  tickExecutionMs: number;
+  thresholdMs: number;
+  // Players still alive after the tick.
+  players: number;
+  intents: { type: string; clientID: string | null; displayName: string | null; count: number }[];
+  conquests: { conqueror: string; conquered: string; gold: string }[];
+  newUnits: { unitType: string; owner: string; count: number }[];
+};
+
+export type SlowTickReport = {
+  threshold: string;
+  // Fixed threshold for percentile mode; null when it varies per tick (rolling median).
+  thresholdMs: number | null;
+  total: number;
+  // Slowest first, capped.
+  ticks: SlowTick[];
 };
 
 export type PlayerSummary = {
@@ -31,6 +79,317 @@ export type PlayerSummary = {
   unitsOwned: Partial<Record<string, number>>;
 };
 
+export type GoldStatCategory = "work" | "war" | "trade" | "steal" | "train";
+
+export type StatsReconciliationRow = {
+  clientID: string;
+  displayName: string;
+  category: GoldStatCategory;
+  // Gold in display units (/1000), like PlayerSummary.
+  recorded: string | null;
+  simulated: string;
+  // The economy tracker's own total, for the categories it tracks separately (war, trade, train).
+  analyzer: string | null;
+  // Relative differences in percent: simulated vs recorded, analyzer vs simulated.
+  recordedDiffPct: number | null;
+  analyzerDiffPct: number | null;
+  engineDrift: boolean;
+  accountingMismatch: boolean;
+};
+
+export type StatsReconciliationReport = {
+  tolerancePct: number;
+  // False when --maxTurns or --stopOnDesync cut the run short; recorded stats are end-of-game.
+  complete: boolean;
+  playersCompared: number;
+  engineDrift: number;
+  accountingMismatches: number;
+  rows: StatsReconciliationRow[];
+};
+
+export type StatsFieldMismatch = {
+  // e.g. "units.city[0]" or "attacks[1]"
+  path: string;
+  recorded: string | null;
+  simulated: string | null;
+};
+
+export type StatsValidationPlayer = {
+  clientID: string;
+  displayName: string;
+  // The replay has no stats object for this player, so its recorded fields all count as zero.
+  missingInRecord: boolean;
+  fieldsCompared: number;
+  matching: number;
+  mismatching: number;
+  mismatches: StatsFieldMismatch[];
+};
+
+export type StatsValidationReport = {
+  complete: boolean;
+  // Top-level PlayerStats fields, from the engine's schema when available.
+  schemaFields: string[];
+  fieldsCompared: number;
+  mismatches: number;
+  players: StatsValidationPlayer[];
+};
+
+export type AttackLedgerEntry = {
+  attackerSmallID: number;
+  attackerClientID: string | null;
+  attackerName: string;
+  // Null targets are terra nullius.
+  targetSmallID: number | null;
+  targetName: string | null;
+  // Turn of the matching `attack` intent; null for bots and other attacks created in-engine.
+  intentTurn: number | null;
+  startTurn: number;
+  // Null while the attack was still running at the end of the simulation.
+  endTurn: number | null;
+  troopsSent: number;
+  attackerLosses: number;
+  defenderLosses: number;
+  tilesCaptured: number;
+};
+
+export type AttackLedgerReport = {
+  attacks: AttackLedgerEntry[];
+  // Attacks beyond the cap that were not recorded.
+  dropped: number;
+};
+
+export type TradeShipEntry = {
+  // Unit ids of the ports; owners are the ones at departure.
+  srcPortID: number;
+  dstPortID: number;
+  srcOwnerSmallID: number;
+  srcOwnerName: string;
+  dstOwnerSmallID: number;
+  dstOwnerName: string;
+  startTurn: number;
+  // Null while the ship was still sailing at the end of the simulation.
+  endTurn: number | null;
+  tilesTraveled: number;
+  outcome: "arrived" | "captured" | "sunk" | "sailing";
+  captorSmallID: number | null;
+  captorName: string | null;
+  goldToSource: number;
+  goldToDestination: number;
+  goldToCaptor: number;
+};
+
+export type TradeRouteReport = {
+  ships: TradeShipEntry[];
+  // Ships beyond the cap that were not recorded.
+  dropped: number;
+};
+
+export type RailStationEntry = {
+  unitID: number;
+  // Type of the unit the station belongs to (City, Port, Factory, ...).
+  unitType: string;
+  ownerSmallID: number;
+  ownerName: string;
+  builtTurn: number;
+  removedTurn: number | null;
+  stops: number;
+  // All gold paid out while trains stopped here, to whoever received it.
+  revenue: number;
+};
+
+export type RailSegmentEntry = {
+  fromUnitID: number;
+  toUnitID: number;
+  tiles: number;
+  builtTurn: number;
+  // Owner of the station the segment was built from.
+  ownerSmallID: number | null;
+};
+
+export type TrainTripEntry = {
+  ownerSmallID: number;
+  ownerName: string;
+  originUnitID: number;
+  destinationUnitID: number;
+  originOwnerName: string;
+  destinationOwnerName: string;
+  startTurn: number;
+  // Null while the train was still running at the end of the simulation.
+  endTurn: number | null;
+  // Gold paid out at the trip's stops, to station owners and the train owner alike.
+  revenue: number;
+};
+
+export type RailNetworkReport = {
+  stations: RailStationEntry[];
+  segments: RailSegmentEntry[];
+  trips: TrainTripEntry[];
+  // Trips beyond the cap that were not recorded.
+  droppedTrips: number;
+  // Train income per player smallID, from every stop.
+  incomeByPlayer: Record<number, number>;
+  turns: number[];
+  activeTrains: number[];
+  // Time spent in TrainExecution.tick per turn.
+  trainTickMs: number[];
+};
+
+export type BuildOrderEntry = {
+  kind: "build" | "upgrade";
+  unitType: string;
+  // Turn of the intent, and the game time it corresponds to (turn x 100 ms).
+  turn: number;
+  gameTimeSec: number;
+  // The player's gold right before the intent's turn ran.
+  gold: number;
+  // Whether a matching unit was created (or the unit gained a level) within the match window.
+  built: boolean;
+  builtTurn: number | null;
+  unitID: number | null;
+};
+
+export type BuildOrderPlayer = {
+  smallID: number;
+  clientID: string;
+  displayName: string;
+  entries: BuildOrderEntry[];
+};
+
+export type BuildOrderReport = {
+  players: BuildOrderPlayer[];
+  // Turns a build intent may wait for its unit before it counts as not built.
+  matchWindowTurns: number;
+};
+
+export type NukeVictim = {
+  smallID: number;
+  displayName: string;
+  tiles: number;
+  troops: number;
+  unitsLost: Record<string, number>;
+  // Replacement cost of the units lost, at the engine's current prices for their owner.
+  goldLost: number;
+};
+
+export type NukeEntry = {
+  nukeType: string;
+  ownerSmallID: number;
+  ownerName: string;
+  siloUnitID: number | null;
+  launchTurn: number;
+  targetTile: number;
+  targetX: number | null;
+  targetY: number | null;
+  // Owner of the target tile at launch; null for terra nullius or water.
+  targetSmallID: number | null;
+  targetName: string | null;
+  // Null while the nuke was still in flight at the end of the simulation.
+  endTurn: number | null;
+  // "split" is a MIRV releasing its warheads, which get entries of their own.
+  outcome: "detonated" | "intercepted" | "split" | "lost" | "inFlight";
+  interceptorSmallID: number | null;
+  interceptorName: string | null;
+  samUnitID: number | null;
+  tilesDestroyed: number;
+  troopsKilled: number;
+  victims: NukeVictim[];
+};
+
+export type NukeReport = {
+  nukes: NukeEntry[];
+  // Nukes beyond the cap that were not recorded.
+  dropped: number;
+};
+
+export type StandingsPlayer = {
+  smallID: number;
+  clientID: string | null;
+  displayName: string;
+  type: string;
+  team: string | null;
+  // 1 is the winner: alive players by final tiles, then eliminated ones, last eliminated first.
+  placement: number;
+  alive: boolean;
+  eliminatedTurn: number | null;
+  // The conqueror from the engine's ConquestEvent; null when the player was lost another way (e.g. a nuke).
+  eliminatedBySmallID: number | null;
+  eliminatedByName: string | null;
+  // Null for players eliminated before they were ever ranked.
+  peakRank: number | null;
+  peakRankTurn: number | null;
+  finalTiles: number;
+  maxTiles: number;
+};
+
+export type StandingsWinner = {
+  kind: "player" | "team";
+  // clientID for a player, team name for a team.
+  id: string;
+  displayName: string;
+};
+
+export type StandingsReport = {
+  players: StandingsPlayer[];
+  // Tile rank every few turns for the best placed players, null before spawning and once eliminated.
+  turns: number[];
+  ranksBySmallID: Record<number, (number | null)[]>;
+  recordedWinner: StandingsWinner | null;
+  reconstructedWinner: StandingsWinner | null;
+  // Null when the record has no winner or the run didn't reach the end.
+  winnerMatches: boolean | null;
+};
+
+export type TerritorySnapshot = {
+  turn: number;
+  // Base64 of varint (palette index, run length) pairs over the row-major grid.
+  owners: string;
+};
+
+export type TerritoryReport = {
+  // Map size in tiles; the grid samples every `stride`th tile in both directions.
+  width: number;
+  height: number;
+  stride: number;
+  gridWidth: number;
+  gridHeight: number;
+  sampleEveryTurns: number;
+  // Same encoding as the snapshots with terrain codes (0 ocean, 1 lake, 2 plains, 3 highland, 4 mountain);
+  // null when the map binary could not be read.
+  terrain: string | null;
+  // Palette index i + 1 is palette[i]; 0 is unowned.
+  palette: { smallID: number; displayName: string }[];
+  snapshots: TerritorySnapshot[];
+};
+
+export type DiplomacyEventKind =
+  | "request"
+  | "accept"
+  | "reject"
+  | "expire"
+  | "extend"
+  | "break"
+  // A broken alliance where the traitor was attacking the betrayed player.
+  | "betrayal"
+  | "embargoStart"
+  | "embargoStop"
+  | "target";
+
+export type DiplomacyEvent = {
+  turn: number;
+  kind: DiplomacyEventKind;
+  // smallIDs; `player` is the one acting (requestor, traitor, embargoing or targeting player).
+  player: number;
+  other: number | null;
+  // Intents are only used for kinds this engine version has no update type for.
+  source: "engine" | "intent";
+};
+
+export type DiplomacyReport = {
+  players: { smallID: number; clientID: string | null; displayName: string }[];
+  events: DiplomacyEvent[];
+  dropped: number;
+};
+
 export type EconomyPlayerSeries = {
   earnedTrade: number[];
   earnedTrain: number[];
@@ -112,6 +471,207 @@ export type LogsSummary = {
   info: { total: number; top: { message: string; count: number }[] };
 };
 
+export type ExecutionTimingReport = {
+  turns: number[];
+  // Sorted by total time, most expensive first.
+  classes: string[];
+  msByClass: Record<string, number[]>;
+  callsByClass: Record<string, number[]>;
+};
+
+export type InstrumentationProbeReport = {
+  target: string;
+  // False when the class or method was never found on any object reachable from the game.
+  resolved: boolean;
+  totalCalls: number;
+  totalMs: number;
+  calls: number[];
+  ms: number[];
+  // Top callers by call count.
+  callers: { caller: string; calls: number; ms: number }[];
+};
+
+export type InstrumentationReport = {
+  turns: number[];
+  probes: InstrumentationProbeReport[];
+};
+
+export type BenchmarkRunSummary = {
+  elapsedMs: number;
+  avg: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+};
+
+export type ConfidenceInterval = { mean: number; stddev: number; low: number; high: number };
+
+export type TrackerOverheadReport = {
+  attribution: "fast" | "precise";
+  attributedCalls: number;
+  // Distinct call sites named so far (fast attribution only).
+  callSites: number;
+  baselineRuns: number;
+  instrumented: BenchmarkRunSummary;
+  baseline: BenchmarkRunSummary;
+  // (instrumented - baseline) / baseline, in percent.
+  overheadPct: BenchmarkRunSummary;
+};
+
+export type BenchmarkReport = {
+  runs: number;
+  warmupRuns: number;
+  turns: number[];
+  // Per-tick median/min across the measured runs, aligned with `turns`.
+  medianMs: number[];
+  minMs: number[];
+  perRun: BenchmarkRunSummary[];
+  stats: Record<keyof BenchmarkRunSummary, ConfidenceInterval>;
+};
+
+export type ComparePlayerMetrics = {
+  tilesOwned: number;
+  tilesOwnedMax: number;
+  troops: number;
+  gold: number;
+  goldEarnedTotal: number | null;
+  goldEarnedTradeTotal: number | null;
+  goldEarnedTrainTotal: number | null;
+  goldEarnedConquerTotal: number | null;
+  goldSpentTotal: number | null;
+};
+
+export type CompareReport = {
+  // Commit SHA or checkout path of each engine.
+  base: { label: string };
+  other: { label: string; reportPath: string };
+  // Tick execution time of the other engine, aligned with `samples` (null where it didn't run that turn).
+  otherTickExecutionMs: Array<number | null>;
+  percentiles: { metric: string; base: number; other: number; delta: number; deltaPct: number | null }[];
+  hashes: {
+    compared: number;
+    diverging: number;
+    firstDivergingTick: number | null;
+    samples: { tick: number; base: number; other: number }[];
+    otherMismatchesVsReplay: number;
+  };
+  players: {
+    clientID: string;
+    displayName: string;
+    base: ComparePlayerMetrics;
+    other: ComparePlayerMetrics;
+  }[];
+};
+
+export type FlameNode = {
+  n: string; // function name
+  f: string; // source file
+  v: number; // total ms
+  s: number; // self ms, including pruned children
+  c?: FlameNode[];
+};
+
+export type CpuProfileSummary = {
+  label: string;
+  outPath: string;
+  totalMs: number;
+  sampleCount: number;
+  functions: { functionName: string; file: string; line: number; selfMs: number; totalMs: number }[];
+  files: { file: string; selfMs: number; totalMs: number }[];
+  flame: FlameNode;
+};
+
+export type BatchIndexEntry = {
+  // As given on the command line or in the ids file.
+  input: string;
+  replayPath: string | null;
+  gameID: string | null;
+  gitCommit: string | null;
+  map: string | null;
+  // Relative to the index page.
+  reportHref: string | null;
+  logHref: string | null;
+  error: string | null;
+  elapsedMs: number;
+  numTicksSimulated: number;
+  tickExecutionMs: { avg: number; p50: number; p95: number; p99: number; max: number } | null;
+  hashMismatches: number;
+  warnings: number;
+  players: number;
+};
+
+export type DesyncPlayerState = {
+  smallID: number;
+  clientID: string | null;
+  displayName: string;
+  isAlive: boolean;
+  tiles: number;
+  troops: number;
+  gold: string;
+  hash: number | null;
+  units: Record<string, number>;
+  executions: Record<string, number>;
+};
+
+export type DesyncCheckpoint = {
+  tick: number;
+  expectedHash: number | null;
+  actualHash: number | null;
+  players: DesyncPlayerState[];
+  executions: Record<string, number>;
+};
+
+export type DesyncPlayerDiff = {
+  smallID: number;
+  clientID: string | null;
+  displayName: string;
+  tilesDelta: number;
+  troopsDelta: number;
+  goldDelta: string;
+  hashDelta: number | null;
+  unitsDelta: Record<string, number>;
+  executionsDelta: Record<string, number>;
+};
+
+export type DesyncReport = {
+  firstMismatchTick: number;
+  expectedHash: number;
+  actualHash: number;
+  reproduced: boolean;
+  resimulatedMs: number;
+  previousCheckpoint: DesyncCheckpoint | null;
+  failingCheckpoint: DesyncCheckpoint;
+  playerDiffs: DesyncPlayerDiff[];
+};
+
+export type DeterminismPlayerState = { tiles: number; troops: number; gold: string };
+
+export type DeterminismReport = {
+  ticksCompared: number;
+  hashesCompared: number;
+  elapsedMs: number;
+  // null when both runners stayed identical for every simulated turn.
+  firstDivergentTurn: number | null;
+  hashDivergence: { tick: number; a: number; b: number } | null;
+  // Players whose fingerprint differs at the first divergent turn (null: missing in that runner).
+  players: {
+    smallID: number;
+    clientID: string | null;
+    displayName: string;
+    a: DeterminismPlayerState | null;
+    b: DeterminismPlayerState | null;
+  }[];
+};
+
+export type AssertionResult = {
+  name: string;
+  passed: boolean;
+  actual: number;
+  limit: number;
+  message: string;
+};
+
 export type ReplayPerfReport = {
   meta: {
     generatedAt: string;
@@ -123,6 +683,10 @@ export type ReplayPerfReport = {
     mapSize: string;
     numTurns: number;
     numTicksSimulated: number;
+    // Set when --stopOnDesync ended the run at this turn.
+    stoppedAtTurn: number | null;
+    // Set by --fromTurn; samples and trackers only cover turns from here on.
+    fromTurn: number | null;
     players: { total: number; humans: number; bots: number; fakeHumans: number };
     unknownClientIds: {
       total: number;
@@ -145,11 +709,34 @@ export type ReplayPerfReport = {
       compared: number;
       mismatches: number;
       mismatchSamples: { tick: number; expected: number; actual: number }[];
+      // Every hash the engine emitted, as [tick, hash].
+      actual: Array<[number, number]>;
     };
+    gc: GcSummary;
+    slowTicks: SlowTickReport;
     warnings: WarningSummary;
     logs: LogsSummary;
   };
   samples: TickSample[];
   players: PlayerSummary[];
   economy: EconomyReport;
+  statsReconciliation: StatsReconciliationReport;
+  statsValidation: StatsValidationReport;
+  attackLedger: AttackLedgerReport | null;
+  tradeRoutes: TradeRouteReport | null;
+  railNetwork: RailNetworkReport | null;
+  buildOrder: BuildOrderReport;
+  nukes: NukeReport | null;
+  standings: StandingsReport;
+  territory: TerritoryReport | null;
+  diplomacy: DiplomacyReport;
+  desync: DesyncReport | null;
+  determinism: DeterminismReport | null;
+  executionTiming: ExecutionTimingReport | null;
+  instrumentation: InstrumentationReport | null;
+  benchmark: BenchmarkReport | null;
+  trackerOverhead: TrackerOverheadReport | null;
+  compare: CompareReport | null;
+  cpuProfiles: CpuProfileSummary[];
+  assertions: AssertionResult[];
 };
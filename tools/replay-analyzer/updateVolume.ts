@@ -0,0 +1,32 @@
+export type UpdateVolume = {
+  count: number;
+  bytes: number;
+  tileUpdates: number;
+  byType: Record<string, number>;
+};
+
+const jsonReplacer = (_key: string, value: unknown) => (typeof value === "bigint" ? value.toString() : value);
+
+/**
+ * Counts the updates in one GameUpdateViewData and approximates what posting it to the main
+ * thread would move: JSON length of the update lists plus the raw packed tile buffer.
+ */
+export function measureGameUpdate(gu: any, gameUpdateType: Record<string, string | number>): UpdateVolume {
+  const byType: Record<string, number> = {};
+  let count = 0;
+  let bytes = 0;
+  for (const [key, list] of Object.entries(gu.updates ?? {})) {
+    if (!Array.isArray(list) || list.length === 0) continue;
+    const name = String(gameUpdateType[key] ?? key);
+    byType[name] = list.length;
+    count += list.length;
+    bytes += JSON.stringify(list, jsonReplacer).length;
+  }
+
+  const packed = gu.packedTileUpdates;
+  const tileUpdates = packed && typeof packed.length === "number" ? packed.length : 0;
+  bytes += packed && typeof packed.byteLength === "number" ? packed.byteLength : 0;
+  if (gu.playerNameViewData) bytes += JSON.stringify(gu.playerNameViewData, jsonReplacer).length;
+
+  return { count, bytes, tileUpdates, byType };
+}
@@ -65,3 +65,31 @@ export function bigintToNumberSafe(value: bigint): number {
   if (value <= -max) return -Number.MAX_SAFE_INTEGER;
   return Number(value);
 }
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+export function sampleStddev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  const sq = values.reduce((acc, v) => acc + (v - m) * (v - m), 0);
+  return Math.sqrt(sq / (values.length - 1));
+}
+
+// Two-sided 95% Student's t critical values for df = 1..30; larger df use the normal approximation.
+const t95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131,
+  2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+export function confidenceInterval95(values: number[]): { mean: number; stddev: number; low: number; high: number } {
+  const m = mean(values);
+  const sd = sampleStddev(values);
+  if (values.length < 2) return { mean: m, stddev: sd, low: m, high: m };
+  const df = values.length - 1;
+  const t = df <= t95.length ? t95[df - 1] : 1.96;
+  const half = (t * sd) / Math.sqrt(values.length);
+  return { mean: m, stddev: sd, low: m - half, high: m + half };
+}